@@ -0,0 +1,144 @@
+import { NextResponse } from "next/server";
+import {
+  convertCSS,
+  parseTheme,
+  type ConvertOptions,
+  type VarDict,
+  type VarModes,
+} from "@/lib/converter";
+
+// Larger payloads are rejected before parsing
+const MAX_BODY_BYTES = 1_000_000;
+
+// Figma plugins and Storybook run on other origins
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type",
+};
+
+const errorResponse = (status: number, error: string, details?: string[]) =>
+  NextResponse.json(details ? { error, details } : { error }, {
+    status,
+    headers: corsHeaders,
+  });
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isStringMap = (value: unknown): value is VarDict =>
+  isObject(value) && Object.values(value).every((v) => typeof v === "string");
+
+// Check the request body field by field, collecting every problem so callers
+// can fix them in one go
+const parseRequest = (
+  body: unknown
+): { css: string; options: ConvertOptions } | { errors: string[] } => {
+  if (!isObject(body)) return { errors: ["Body must be a JSON object"] };
+  const errors: string[] = [];
+  const { css, dictionary, modes, prefixes, existingClasses, target, theme } =
+    body;
+
+  if (typeof css !== "string") errors.push("css: expected a string");
+  else if (!css.trim()) errors.push("css: must not be empty");
+  if (dictionary !== undefined && !isStringMap(dictionary)) {
+    errors.push('dictionary: expected an object like { "--name": "value" }');
+  }
+  if (
+    modes !== undefined &&
+    !(isObject(modes) && Object.values(modes).every(isStringMap))
+  ) {
+    errors.push(
+      'modes: expected an object like { "dark": { "--name": "value" } }'
+    );
+  }
+  if (prefixes !== undefined && typeof prefixes !== "string") {
+    errors.push('prefixes: expected a string (e.g. "md hover")');
+  }
+  if (
+    existingClasses !== undefined &&
+    typeof existingClasses !== "string" &&
+    !(
+      Array.isArray(existingClasses) &&
+      existingClasses.every((c) => typeof c === "string")
+    )
+  ) {
+    errors.push("existingClasses: expected a string or an array of strings");
+  }
+  if (target !== undefined && target !== "v3" && target !== "v4") {
+    errors.push('target: expected "v3" or "v4"');
+  }
+  if (theme !== undefined && typeof theme !== "string") {
+    errors.push("theme: expected a stylesheet with an @theme block");
+  }
+  for (const flag of ["keepVariables", "layers"]) {
+    if (body[flag] !== undefined && typeof body[flag] !== "boolean") {
+      errors.push(`${flag}: expected a boolean`);
+    }
+  }
+  if (errors.length > 0) return { errors };
+
+  return {
+    css: css as string,
+    options: {
+      dictionary: dictionary as VarDict | undefined,
+      modes: modes as VarModes | undefined,
+      prefixes: prefixes as string | undefined,
+      existingClasses: Array.isArray(existingClasses)
+        ? existingClasses.join(" ")
+        : (existingClasses as string | undefined),
+      target: target as ConvertOptions["target"],
+      theme: typeof theme === "string" ? parseTheme(theme) : null,
+      keepVariables: body.keepVariables as boolean | undefined,
+      layers: body.layers as boolean | undefined,
+    },
+  };
+};
+
+export const OPTIONS = () =>
+  new NextResponse(null, { status: 204, headers: corsHeaders });
+
+// POST { css, dictionary?, modes?, prefixes?, existingClasses?, target?,
+// theme?, keepVariables?, layers? } → the converted classes and warnings
+export const POST = async (request: Request) => {
+  if (!request.headers.get("content-type")?.includes("application/json")) {
+    return errorResponse(415, "Content-Type must be application/json");
+  }
+  const text = await request.text();
+  if (new TextEncoder().encode(text).length > MAX_BODY_BYTES) {
+    return errorResponse(
+      413,
+      `Request body must be at most ${MAX_BODY_BYTES} bytes`
+    );
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch (error) {
+    return errorResponse(
+      400,
+      `Invalid JSON: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  const parsed = parseRequest(body);
+  if ("errors" in parsed) {
+    return errorResponse(422, "Invalid request", parsed.errors);
+  }
+
+  const result = convertCSS(parsed.css, parsed.options);
+  return NextResponse.json(
+    {
+      classes: result.classes,
+      className: result.className,
+      removed: result.removed,
+      invalid: result.invalid,
+      layers: result.layers.map(({ name, classes }) => ({ name, classes })),
+      unmappedVariables: result.unmappedVariables,
+      variableTheme: result.variableTheme || undefined,
+      warnings: result.warnings,
+    },
+    { headers: corsHeaders }
+  );
+};
@@ -0,0 +1,117 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { NextResponse } from "next/server";
+import { compile } from "tailwindcss";
+import { emptyTheme, themeToCSS, type ThemeModel } from "@/lib/converter";
+
+// Larger payloads are rejected before parsing
+const MAX_BODY_BYTES = 1_000_000;
+
+const tailwindRoot = path.join(process.cwd(), "node_modules", "tailwindcss");
+
+// Resolve `@import "tailwindcss"` and the relative imports inside the
+// tailwindcss package; anything else would read arbitrary server files
+const loadStylesheet = async (id: string, base: string) => {
+  const file =
+    id === "tailwindcss"
+      ? path.join(tailwindRoot, "index.css")
+      : id.startsWith(".") && base.startsWith(tailwindRoot)
+        ? path.resolve(base, id)
+        : null;
+  if (!file || !file.startsWith(tailwindRoot + path.sep)) {
+    throw new Error(`Cannot import "${id}"`);
+  }
+  return {
+    path: file,
+    base: path.dirname(file),
+    content: await readFile(file, "utf8"),
+  };
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Theme keys and values are written into an @theme block, so they must not
+// be able to end a declaration or the block
+const isThemeValue = (key: string, value: unknown) =>
+  /^[\w.-]+$/.test(key) && typeof value === "string" && !/[;{}]/.test(value);
+
+// Check a theme model field by field
+const parseThemeModel = (value: unknown): ThemeModel | null => {
+  if (!isObject(value)) return null;
+  const theme = emptyTheme();
+  const namespaces = Object.keys(theme).filter(
+    (key): key is Exclude<keyof ThemeModel, "spacingBase" | "resets"> =>
+      key !== "spacingBase" && key !== "resets"
+  );
+  for (const namespace of namespaces) {
+    const entries = value[namespace] ?? {};
+    if (
+      !isObject(entries) ||
+      !Object.entries(entries).every(([key, v]) => isThemeValue(key, v))
+    ) {
+      return null;
+    }
+    theme[namespace] = entries as Record<string, string>;
+  }
+  const { spacingBase = null, resets = [] } = value;
+  if (spacingBase !== null && !isThemeValue("spacing", spacingBase)) {
+    return null;
+  }
+  if (
+    !Array.isArray(resets) ||
+    !resets.every((reset) => namespaces.includes(reset))
+  ) {
+    return null;
+  }
+  theme.spacingBase = spacingBase as string | null;
+  theme.resets = resets;
+  return theme;
+};
+
+// POST { classes: string[], theme?: ThemeModel } → the CSS Tailwind v4
+// generates for the classes, for the preview iframe
+export const POST = async (request: Request) => {
+  const text = await request.text();
+  if (new TextEncoder().encode(text).length > MAX_BODY_BYTES) {
+    return NextResponse.json(
+      { error: `Request body must be at most ${MAX_BODY_BYTES} bytes` },
+      { status: 413 }
+    );
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+
+  const { classes, theme = null } = (body ?? {}) as Record<string, unknown>;
+  if (!Array.isArray(classes) || !classes.every((c) => typeof c === "string")) {
+    return NextResponse.json(
+      { error: "classes: expected an array of strings" },
+      { status: 422 }
+    );
+  }
+  const themeModel = theme === null ? null : parseThemeModel(theme);
+  if (theme !== null && !themeModel) {
+    return NextResponse.json(
+      { error: "theme: expected a theme model" },
+      { status: 422 }
+    );
+  }
+
+  try {
+    const compiler = await compile(
+      `@import "tailwindcss";\n${themeModel ? themeToCSS(themeModel) : ""}`,
+      { base: process.cwd(), loadStylesheet }
+    );
+    return NextResponse.json({ css: compiler.build(classes) });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : String(error) },
+      { status: 422 }
+    );
+  }
+};
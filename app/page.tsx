@@ -1,517 +1,112 @@
 "use client";
 
-import { useState, useMemo, useEffect, useCallback } from "react";
-
-interface VarDict {
-  [key: string]: string; // key: CSS variable name (e.g., "--Border-Medium", "--Heading-Font"), value: Tailwind class value (e.g., "border-gray-400", "mackinac")
-}
+import { useState, useMemo, useEffect, useRef } from "react";
+import {
+  classesToCSS,
+  convertCSS,
+  convertNodeTree,
+  defaultColorOptions,
+  defaultOptimizerOptions,
+  defaultScaleOptions,
+  dictValueNote,
+  emptyTheme,
+  forceVariant,
+  formatClasses,
+  importVariables,
+  matchColor,
+  outputFormats,
+  parseColor,
+  parseTheme,
+  previewStyle,
+  resolveScales,
+  roundTripCSS,
+  ruleRegex,
+  versionDifferences,
+  type ColorOptions,
+  type EmitOptions,
+  type InvalidClass,
+  type LayerNameOutput,
+  type MarkupFormat,
+  type OptimizerOptions,
+  type OutputFormat,
+  type RoundTripStatus,
+  type ScaleOptions,
+  type TailwindTarget,
+  type ThemeModel,
+  type TraceRow,
+  type VarDict,
+  type VariantFrame,
+  type VarModes,
+  type VarRule,
+} from "@/lib/converter";
 
 const STORAGE_KEY = "figma-tailwind-var-dict";
-
-const toTailwind = (cssObj: Record<string, string>) => {
-  const tw: string[] = [];
-
-  const px = (v: string) => v.replace("px", "");
-
-  // Font weight mapping
-  const fontWeightMap: Record<string, string> = {
-    "100": "thin",
-    "200": "extralight",
-    "300": "light",
-    "400": "normal",
-    "500": "medium",
-    "600": "semibold",
-    "700": "bold",
-    "800": "extrabold",
-    "900": "black",
-  };
-
-  // Font size mapping (px to Tailwind size)
-  const fontSizeMap: Record<string, string> = {
-    "12": "xs",
-    "14": "sm",
-    "16": "base",
-    "18": "lg",
-    "20": "xl",
-    "24": "2xl",
-    "30": "3xl",
-    "36": "4xl",
-    "48": "5xl",
-    "60": "6xl",
-    "72": "7xl",
-    "96": "8xl",
-    "128": "9xl",
-  };
-
-  // Line height mapping
-  const lineHeightMap: Record<string, string> = {
-    "1": "none",
-    "1.25": "tight",
-    "1.5": "snug",
-    "1.75": "normal",
-    "2": "relaxed",
-    "2.25": "loose",
-  };
-
-  // Letter spacing mapping
-  const letterSpacingMap: Record<string, string> = {
-    "-0.05em": "tighter",
-    "-0.025em": "tight",
-    "0em": "normal",
-    "0.025em": "wide",
-    "0.05em": "wider",
-    "0.1em": "widest",
-  };
-
-  // Text decoration style mapping
-  const textDecorationStyleMap: Record<string, string> = {
-    solid: "solid",
-    double: "double",
-    dotted: "dotted",
-    dashed: "dashed",
-    wavy: "wavy",
-  };
-
-  // ---------- TEXT ----------
-  if (cssObj["color"]) {
-    // Check if it's a dictionary-mapped value
-    if (cssObj["color"].startsWith("__DICT__")) {
-      const dictValue = cssObj["color"].replace("__DICT__", "");
-      tw.push(`text-[${dictValue}]`);
-    } else {
-      tw.push(`text-[${cssObj["color"]}]`);
-    }
-  }
-  if (cssObj["text-align"]) tw.push(`text-${cssObj["text-align"]}`);
-
-  // Text decoration
-  if (cssObj["text-decoration-line"]) {
-    const decoration = cssObj["text-decoration-line"];
-    if (decoration === "underline") {
-      tw.push("underline");
-    } else if (decoration === "line-through") {
-      tw.push("line-through");
-    } else if (decoration === "overline") {
-      tw.push("overline");
-    } else if (decoration === "none") {
-      tw.push("no-underline");
-    } else {
-      tw.push(`decoration-[${decoration}]`);
-    }
-  }
-  if (cssObj["text-decoration-style"]) {
-    const style = cssObj["text-decoration-style"];
-    if (style !== "solid") {
-      // solid is default, so we only add classes for other styles
-      const mappedStyle = textDecorationStyleMap[style];
-      if (mappedStyle) {
-        tw.push(`decoration-${mappedStyle}`);
-      } else {
-        tw.push(`decoration-[${style}]`);
-      }
-    }
-  }
-  if (cssObj["text-decoration-skip-ink"]) {
-    const skipInk = cssObj["text-decoration-skip-ink"];
-    if (skipInk === "auto") {
-      tw.push("decoration-skip-ink");
-    } else if (skipInk === "none") {
-      tw.push("decoration-skip-ink-none");
-    } else {
-      tw.push(`decoration-skip-ink-[${skipInk}]`);
-    }
-  }
-  if (cssObj["text-decoration-thickness"]) {
-    const thickness = cssObj["text-decoration-thickness"];
-    if (thickness !== "auto") {
-      // Tailwind v3.3+ supports decoration-{width} but for arbitrary values use CSS property
-      // Try to map common values first
-      if (thickness === "1px" || thickness === "thin") {
-        tw.push("decoration-1");
-      } else if (thickness === "2px" || thickness === "medium") {
-        tw.push("decoration-2");
-      } else if (thickness === "4px" || thickness === "thick") {
-        tw.push("decoration-4");
-      } else {
-        tw.push(`[text-decoration-thickness:${thickness}]`);
-      }
-    }
-  }
-  if (cssObj["text-underline-offset"]) {
-    const offset = cssObj["text-underline-offset"];
-    if (offset !== "auto") {
-      tw.push(`underline-offset-[${offset}]`);
-    }
-  }
-  if (cssObj["text-underline-position"]) {
-    const position = cssObj["text-underline-position"];
-    if (position !== "auto") {
-      // Tailwind doesn't have a direct utility for text-underline-position
-      // Use arbitrary value with CSS custom property or skip
-      // For "from-font", we'll skip as it's often the default
-      if (position !== "from-font") {
-        tw.push(`[text-underline-position:${position}]`);
-      }
-    }
-  }
-
-  // ---------- FONT ----------
-  if (cssObj["font-size"]) {
-    const sizePx = px(cssObj["font-size"]);
-    const mappedSize = fontSizeMap[sizePx];
-    if (mappedSize) {
-      tw.push(`text-${mappedSize}`);
-    } else {
-      tw.push(`text-[${sizePx}px]`);
-    }
-  }
-  if (cssObj["font-weight"]) {
-    const weight = cssObj["font-weight"];
-    const mappedWeight = fontWeightMap[weight];
-    if (mappedWeight) {
-      tw.push(`font-${mappedWeight}`);
-    } else {
-      tw.push(`font-[${weight}]`);
-    }
-  }
-  if (cssObj["line-height"]) {
-    const leading = cssObj["line-height"];
-    const mappedLeading = lineHeightMap[leading];
-    if (mappedLeading) {
-      tw.push(`leading-${mappedLeading}`);
-    } else {
-      tw.push(`leading-[${leading}]`);
-    }
-  }
-  if (cssObj["letter-spacing"]) {
-    const tracking = cssObj["letter-spacing"];
-    const mappedTracking = letterSpacingMap[tracking];
-    if (mappedTracking) {
-      tw.push(`tracking-${mappedTracking}`);
-    } else {
-      // Handle px values and other units
-      tw.push(`tracking-[${tracking}]`);
-    }
-  }
-  if (cssObj["font-family"]) {
-    // Check if it's a dictionary-mapped value
-    if (cssObj["font-family"].startsWith("__DICT__")) {
-      const dictValue = cssObj["font-family"].replace("__DICT__", "");
-      // If dictionary value already starts with "font-", use it as-is
-      if (dictValue.startsWith("font-")) {
-        tw.push(dictValue);
-      } else {
-        tw.push(`font-${dictValue}`);
-      }
-    } else {
-      tw.push(`font-[${cssObj["font-family"]}]`);
-    }
-  }
-  if (cssObj["font-style"]) {
-    const style = cssObj["font-style"];
-    if (style === "italic") {
-      tw.push("italic");
-    } else if (style === "normal") {
-      tw.push("not-italic");
-    } else {
-      tw.push(`font-[${style}]`);
-    }
-  }
-
-  // ---------- SPACING ----------
-  const spacingMap = {
-    margin: "m",
-    "margin-top": "mt",
-    "margin-bottom": "mb",
-    "margin-left": "ml",
-    "margin-right": "mr",
-    padding: "p",
-    "padding-top": "pt",
-    "padding-bottom": "pb",
-    "padding-left": "pl",
-    "padding-right": "pr",
-  };
-  Object.entries(spacingMap).forEach(([prop, twKey]) => {
-    if (cssObj[prop]) tw.push(`${twKey}-[${cssObj[prop]}]`);
-  });
-
-  // ---------- SIZE ----------
-  if (cssObj["width"]) tw.push(`w-[${cssObj["width"]}]`);
-  if (cssObj["height"]) tw.push(`h-[${cssObj["height"]}]`);
-
-  // ---------- BORDER RADIUS ----------
-  if (cssObj["border-radius"]) {
-    const radius = cssObj["border-radius"];
-    // Tailwind default is 4px, so use "rounded" instead of "rounded-[4px]"
-    if (radius === "4px" || radius === "0.25rem") {
-      tw.push("rounded");
-    } else {
-      tw.push(`rounded-[${radius}]`);
-    }
-  }
-
-  // ---------- BORDER ----------
-  const borderSideMap: Record<string, string> = {
-    border: "border",
-    "border-top": "border-t",
-    "border-bottom": "border-b",
-    "border-left": "border-l",
-    "border-right": "border-r",
-  };
-
-  // Track border styles to avoid duplicates (Tailwind applies style to all sides)
-  const borderStyles = new Set<string>();
-
-  Object.entries(borderSideMap).forEach(([prop, twPrefix]) => {
-    if (cssObj[prop]) {
-      const borderValue = cssObj[prop];
-      // Parse border: width style color (e.g., "0.5px solid #ABABAB")
-      const parts = borderValue.trim().split(/\s+/);
-
-      if (parts.length >= 1) {
-        // Border width
-        const width = parts[0];
-        if (width && width !== "0" && width !== "0px") {
-          // Tailwind default is 1px, so use just the prefix instead of prefix-[1px]
-          if (width === "1px" || width === "0.0625rem") {
-            tw.push(twPrefix);
-          } else {
-            tw.push(`${twPrefix}-[${width}]`);
-          }
-        }
-      }
-
-      if (parts.length >= 2) {
-        // Border style (applies to all sides in Tailwind)
-        const style = parts[1];
-        if (style && style !== "none" && !borderStyles.has(style)) {
-          tw.push(`border-${style}`);
-          borderStyles.add(style);
-        }
-      }
-
-      if (parts.length >= 3) {
-        // Border color
-        const color = parts.slice(2).join(" ");
-        if (color && color !== "transparent") {
-          // Check if it's a dictionary-mapped value
-          if (color.startsWith("__DICT__")) {
-            const dictValue = color.replace("__DICT__", "");
-            tw.push(`${twPrefix}-[${dictValue}]`);
-          } else {
-            tw.push(`${twPrefix}-[${color}]`);
-          }
-        }
-      }
-    }
-  });
-
-  // ---------- BACKGROUND ----------
-  if (cssObj["background-color"]) {
-    // Check if it's a dictionary-mapped value
-    if (cssObj["background-color"].startsWith("__DICT__")) {
-      const dictValue = cssObj["background-color"].replace("__DICT__", "");
-      tw.push(`bg-[${dictValue}]`);
-    } else {
-      tw.push(`bg-[${cssObj["background-color"]}]`);
-    }
-  }
-  if (cssObj["opacity"]) tw.push(`opacity-[${cssObj["opacity"]}]`);
-
-  // ---------- BOX SHADOW ----------
-  if (cssObj["box-shadow"]) tw.push(`shadow-[${cssObj["box-shadow"]}]`);
-
-  return tw;
+const MODES_STORAGE_KEY = "figma-tailwind-var-modes";
+const RULES_STORAGE_KEY = "figma-tailwind-var-rules";
+const THEME_STORAGE_KEY = "figma-tailwind-theme";
+
+// Trace status text colors
+const traceStatusColors: Record<string, string> = {
+  exact: "text-green-700",
+  approximated: "text-amber-700",
+  arbitrary: "text-blue-700",
+  unsupported: "text-red-700",
+  unparsed: "text-red-700",
 };
 
-const applyPrefixes = (classes: string[], prefixStr: string) => {
-  if (!prefixStr.trim()) return classes.join(" ");
-
-  const px = prefixStr.split(/\s+/).map((p) => p.replace(/:$/, "") + ":"); // ensure colon
-
-  return classes.map((cls) => px.map((p) => `${p}${cls}`).join(" ")).join(" ");
+// Round trip status text colors
+const roundTripStatusColors: Record<RoundTripStatus, string> = {
+  same: "text-green-700",
+  mapped: "text-gray-600",
+  changed: "text-amber-700",
+  lost: "text-red-700",
+  added: "text-blue-700",
 };
 
-// Get the property type from a Tailwind class (e.g., "text-sm" -> "font-size", "font-bold" -> "font-weight")
-const getClassPropertyType = (className: string): string | null => {
-  // Remove prefix if present (e.g., "lg:text-sm" -> "text-sm")
-  const cleanClass = className.includes(":")
-    ? className.split(":")[1]
-    : className;
-
-  // Font size (text-xs, text-sm, text-base, etc. or text-[size])
-  if (
-    /^text-(xs|sm|base|lg|xl|2xl|3xl|4xl|5xl|6xl|7xl|8xl|9xl)$/.test(cleanClass)
-  ) {
-    return "font-size";
-  }
-  // Arbitrary font size (text-[16px], text-[1rem], etc.)
-  if (cleanClass.startsWith("text-[") && /(px|rem|em)\]$/.test(cleanClass)) {
-    return "font-size";
-  }
-  // Font weight (font-* but not font-style)
-  if (
-    cleanClass.startsWith("font-") &&
-    !cleanClass.startsWith("font-[") &&
-    cleanClass !== "font-italic" &&
-    cleanClass !== "font-not-italic"
-  ) {
-    // font-normal, font-bold, font-thin, etc. are all font-weight
-    return "font-weight";
-  }
-  // Arbitrary font weight (font-[700], font-[400], etc.)
-  if (cleanClass.startsWith("font-[") && /^font-\[\d+\]$/.test(cleanClass)) {
-    return "font-weight";
-  }
-  // Font style
-  if (cleanClass === "italic" || cleanClass === "not-italic") {
-    return "font-style";
-  }
-  // Line height (leading-*)
-  if (cleanClass.startsWith("leading-")) {
-    return "line-height";
-  }
-  // Letter spacing (tracking-*)
-  if (cleanClass.startsWith("tracking-")) {
-    return "letter-spacing";
-  }
-  // Text decoration
-  if (
-    cleanClass.startsWith("underline") ||
-    cleanClass.startsWith("line-through") ||
-    cleanClass.startsWith("overline") ||
-    cleanClass.startsWith("no-underline") ||
-    cleanClass.startsWith("decoration-")
-  ) {
-    return "text-decoration";
-  }
-  // Color (text-[color] or text-{color}-{shade} but not font-size)
-  if (
-    cleanClass === "text-white" ||
-    cleanClass === "text-black" ||
-    /^text-(red|blue|green|yellow|purple|pink|indigo|gray|slate|zinc|neutral|stone|amber|orange|lime|emerald|teal|cyan|sky|violet|fuchsia|rose)-\d+$/.test(
-      cleanClass
-    )
-  ) {
-    return "color";
-  }
-  // Arbitrary color (text-[#hex] or text-[rgb(...)])
-  if (cleanClass.startsWith("text-[") && !/(px|rem|em)\]$/.test(cleanClass)) {
-    return "color";
-  }
-  // Background color
-  if (cleanClass.startsWith("bg-")) {
-    return "background-color";
-  }
-  // Border
-  if (
-    cleanClass.startsWith("border") &&
-    !cleanClass.startsWith("border-radius")
-  ) {
-    return "border";
-  }
-  // Border radius
-  if (cleanClass.startsWith("rounded")) {
-    return "border-radius";
-  }
-  // Width
-  if (cleanClass.startsWith("w-")) {
-    return "width";
-  }
-  // Height
-  if (cleanClass.startsWith("h-")) {
-    return "height";
-  }
-  // Opacity
-  if (cleanClass.startsWith("opacity-")) {
-    return "opacity";
-  }
-  // Box shadow
-  if (cleanClass.startsWith("shadow-")) {
-    return "box-shadow";
-  }
-  // Spacing (margin/padding)
-  if (/^(m|mt|mb|ml|mr|mx|my|p|pt|pb|pl|pr|px|py)-/.test(cleanClass)) {
-    return "spacing";
-  }
-
-  return null;
-};
+// Preview viewport widths (px) and the states it can force
+const previewWidths = [375, 640, 768, 1024, 1280, 1536];
+const previewStates = ["hover", "focus", "active"];
 
-// Merge existing classes with new classes, removing duplicates based on property type
-const mergeClasses = (
-  existingClasses: string[],
-  newClasses: string[]
-): string[] => {
-  // Parse existing classes into a map by property type
-  const existingByProperty = new Map<string, string>();
-  const existingOther: string[] = [];
-
-  for (const cls of existingClasses) {
-    const propertyType = getClassPropertyType(cls);
-    if (propertyType) {
-      existingByProperty.set(propertyType, cls);
-    } else {
-      existingOther.push(cls);
-    }
-  }
-
-  // Start with all existing classes
-  const merged: string[] = [...existingClasses];
-
-  // Process new classes
-  for (const newClass of newClasses) {
-    const propertyType = getClassPropertyType(newClass);
-
-    if (propertyType) {
-      // Check if there's a conflicting existing class
-      const existingClass = existingByProperty.get(propertyType);
-
-      if (existingClass) {
-        // Check if either class has a prefix (breakpoint modifier)
-        const newClassHasPrefix = newClass.includes(":");
-        const existingClassHasPrefix = existingClass.includes(":");
-
-        // If one has a prefix and the other doesn't, they apply to different breakpoints
-        // so we should keep both (always add the new one)
-        if (newClassHasPrefix !== existingClassHasPrefix) {
-          merged.push(newClass);
-        } else {
-          // Both have prefixes or both don't - check if they're the same
-          // Remove prefix from both for comparison
-          const newClassClean = newClassHasPrefix
-            ? newClass.split(":")[1]
-            : newClass;
-          const existingClassClean = existingClassHasPrefix
-            ? existingClass.split(":")[1]
-            : existingClass;
-
-          if (newClassClean !== existingClassClean) {
-            // Different values - add the new class
-            merged.push(newClass);
-          }
-          // If same, skip (don't add duplicate)
-        }
-      } else {
-        // No conflict - add the new class
-        merged.push(newClass);
-      }
-    } else {
-      // No property type - check if it already exists
-      if (!existingClasses.includes(newClass)) {
-        merged.push(newClass);
-      }
-    }
-  }
-
-  return merged;
-};
+// Escape text for an HTML attribute or element
+const escapeHTML = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/"/g, "&quot;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
 
 export default function TailwindConverter() {
   const [cssInput, setCssInput] = useState("");
   const [prefixes, setPrefixes] = useState("");
   const [existingClasses, setExistingClasses] = useState("");
-  const [copied, setCopied] = useState(false);
+  const [copied, setCopied] = useState<string | null>(null);
+  const [outputFormat, setOutputFormat] = useState<OutputFormat>("className");
+  const [reverseInput, setReverseInput] = useState("");
+  const [nodeInput, setNodeInput] = useState("");
+  const [nodeMarkup, setNodeMarkup] = useState<MarkupFormat>("jsx");
+  const [nodeLayerNames, setNodeLayerNames] =
+    useState<LayerNameOutput>("comment");
+  const [showSameRows, setShowSameRows] = useState(false);
+  const [previewWidth, setPreviewWidth] = useState(768);
+  const [previewState, setPreviewState] = useState("");
+  const [previewCSS, setPreviewCSS] = useState("");
+  const [previewDiff, setPreviewDiff] = useState<
+    { property: string; figma: string; classes: string }[]
+  >([]);
+  const cssInputRef = useRef<HTMLTextAreaElement>(null);
+  const [multiBlock, setMultiBlock] = useState(false);
+  const [variantFrames, setVariantFrames] = useState<VariantFrame[]>([]);
+  const [optimizerOptions, setOptimizerOptions] = useState<OptimizerOptions>(
+    defaultOptimizerOptions
+  );
+  const [scaleOptions, setScaleOptions] =
+    useState<ScaleOptions>(defaultScaleOptions);
+  const [colorOptions, setColorOptions] =
+    useState<ColorOptions>(defaultColorOptions);
+  const [emitOptions, setEmitOptions] = useState<EmitOptions>({
+    target: "v3",
+    keepVariables: false,
+  });
 
   // Load dictionary from localStorage with lazy initialization
   const [varDict, setVarDict] = useState<VarDict>(() => {
@@ -527,86 +122,305 @@ export default function TailwindConverter() {
     return {};
   });
 
+  // Load mode overrides (e.g. dark) from localStorage with lazy initialization
+  const [varModes, setVarModes] = useState<VarModes>(() => {
+    if (typeof window === "undefined") return {};
+    const stored = localStorage.getItem(MODES_STORAGE_KEY);
+    if (stored) {
+      try {
+        return JSON.parse(stored);
+      } catch {
+        return {};
+      }
+    }
+    return {};
+  });
+
+  // Load pattern rules from localStorage with lazy initialization
+  const [varRules, setVarRules] = useState<VarRule[]>(() => {
+    if (typeof window === "undefined") return [];
+    const stored = localStorage.getItem(RULES_STORAGE_KEY);
+    if (stored) {
+      try {
+        return JSON.parse(stored);
+      } catch {
+        return [];
+      }
+    }
+    return [];
+  });
+
   const [newVarKey, setNewVarKey] = useState("");
   const [newVarValue, setNewVarValue] = useState("");
+  const [importMode, setImportMode] = useState("");
+  const [importStatus, setImportStatus] = useState("");
+  const [newRule, setNewRule] = useState<VarRule>({
+    pattern: "",
+    replacement: "",
+    glob: false,
+  });
+  const [varSearch, setVarSearch] = useState("");
+  const [editingVar, setEditingVar] = useState<string | null>(null);
+  const [editingValue, setEditingValue] = useState("");
+  const [unmappedValues, setUnmappedValues] = useState<VarDict>({});
+
+  // Load theme model from localStorage with lazy initialization
+  const [theme, setTheme] = useState<ThemeModel | null>(() => {
+    if (typeof window === "undefined") return null;
+    const stored = localStorage.getItem(THEME_STORAGE_KEY);
+    if (stored) {
+      try {
+        return { ...emptyTheme(), ...JSON.parse(stored) };
+      } catch {
+        return null;
+      }
+    }
+    return null;
+  });
+  const [themeInput, setThemeInput] = useState("");
+
+  const scales = useMemo(
+    () => resolveScales(theme, emitOptions.target),
+    [theme, emitOptions.target]
+  );
 
   // Save dictionary to localStorage when it changes
   useEffect(() => {
     localStorage.setItem(STORAGE_KEY, JSON.stringify(varDict));
   }, [varDict]);
 
-  const parseCSS = useCallback(
-    (css: string) => {
-      const lines = css
-        .split("\n")
-        .map((l) => l.trim())
-        .filter(Boolean);
-      const obj: Record<string, string> = {};
-
-      for (const line of lines) {
-        const match = line.match(/^([a-zA-Z-]+)\s*:\s*(.*?);$/);
-        if (match) {
-          const [, prop, value] = match;
-
-          // Check for CSS variable: var(--X, fallback)
-          // Replace all occurrences of var() in the value
-          let processedValue = value;
-          const varRegex = /var\(([^,]+),\s*([^)]+)\)/g;
-          let varMatch;
-
-          while ((varMatch = varRegex.exec(value)) !== null) {
-            const [, varName, fallback] = varMatch;
-            const trimmedVarName = varName.trim();
-            let replacement: string;
-
-            // Check if variable exists in dictionary
-            if (varDict[trimmedVarName]) {
-              // Store the mapped value with a special marker to indicate it's from dict
-              replacement = `__DICT__${varDict[trimmedVarName]}`;
-            } else {
-              // Use fallback value (remove quotes if present)
-              replacement = fallback.trim().replace(/^["']|["']$/g, "");
-            }
+  // Save mode overrides to localStorage when they change
+  useEffect(() => {
+    localStorage.setItem(MODES_STORAGE_KEY, JSON.stringify(varModes));
+  }, [varModes]);
 
-            // Replace the variable in the value
-            processedValue = processedValue.replace(varMatch[0], replacement);
-          }
+  // Save pattern rules to localStorage when they change
+  useEffect(() => {
+    localStorage.setItem(RULES_STORAGE_KEY, JSON.stringify(varRules));
+  }, [varRules]);
 
-          obj[prop] = processedValue;
-        }
-      }
-      return obj;
-    },
-    [varDict]
+  // Save theme model to localStorage when it changes
+  useEffect(() => {
+    if (theme) {
+      localStorage.setItem(THEME_STORAGE_KEY, JSON.stringify(theme));
+    } else {
+      localStorage.removeItem(THEME_STORAGE_KEY);
+    }
+  }, [theme]);
+
+  // Run the conversion pipeline with the current settings
+  const result = useMemo(
+    () =>
+      convertCSS(cssInput, {
+        dictionary: varDict,
+        modes: varModes,
+        rules: varRules,
+        prefixes,
+        existingClasses,
+        variantFrames,
+        layers: multiBlock,
+        theme,
+        target: emitOptions.target,
+        keepVariables: emitOptions.keepVariables,
+        scale: scaleOptions,
+        colors: colorOptions,
+        optimizer: optimizerOptions,
+      }),
+    [
+      cssInput,
+      varDict,
+      varModes,
+      varRules,
+      prefixes,
+      existingClasses,
+      variantFrames,
+      multiBlock,
+      theme,
+      emitOptions,
+      scaleOptions,
+      colorOptions,
+      optimizerOptions,
+    ]
+  );
+  const { trace, ruleMappings, unmappedVariables, variableTheme } = result;
+  const formattedOutput =
+    result.classes.length > 0
+      ? formatClasses(result.classes, outputFormat)
+      : "";
+
+  // Classes explained as CSS
+  const reverse = useMemo(
+    () => classesToCSS(reverseInput, { theme, target: emitOptions.target }),
+    [reverseInput, theme, emitOptions.target]
+  );
+
+  // Figma node JSON as nested markup
+  const nodeTree = useMemo(() => {
+    if (!nodeInput.trim()) return null;
+    try {
+      return convertNodeTree(JSON.parse(nodeInput), {
+        theme,
+        target: emitOptions.target,
+        scale: scaleOptions,
+        colors: colorOptions,
+        optimizer: optimizerOptions,
+        markup: nodeMarkup,
+        layerNames: nodeLayerNames,
+      });
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : String(error) };
+    }
+  }, [
+    nodeInput,
+    theme,
+    emitOptions.target,
+    scaleOptions,
+    colorOptions,
+    optimizerOptions,
+    nodeMarkup,
+    nodeLayerNames,
+  ]);
+
+  // CSS → classes → CSS, compared with the pasted declarations
+  const roundTrip = useMemo(
+    () =>
+      roundTripCSS(cssInput, {
+        dictionary: varDict,
+        rules: varRules,
+        theme,
+        target: emitOptions.target,
+        keepVariables: emitOptions.keepVariables,
+        scale: scaleOptions,
+        colors: colorOptions,
+        optimizer: optimizerOptions,
+      }),
+    [
+      cssInput,
+      varDict,
+      varRules,
+      theme,
+      emitOptions,
+      scaleOptions,
+      colorOptions,
+      optimizerOptions,
+    ]
+  );
+  const roundTripDiffs = roundTrip.filter((row) => row.status !== "same");
+
+  // Generated classes with the chosen state applied unconditionally
+  const previewClassName = forceVariant(result.classes, previewState).join(" ");
+
+  // Compile the previewed classes with Tailwind once typing pauses
+  useEffect(() => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      fetch("/api/preview", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          classes: previewClassName.split(" ").filter(Boolean),
+          theme,
+        }),
+        signal: controller.signal,
+      })
+        .then((res) => res.json())
+        .then((data) => setPreviewCSS(data.css ?? ""))
+        .catch(() => {});
+    }, 300);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [previewClassName, theme]);
+
+  // The Figma CSS as the conversion resolves it, with the variant frames
+  // that apply at the previewed width and state
+  const figmaPreview = useMemo(
+    () =>
+      previewStyle(
+        cssInput,
+        { state: previewState, width: previewWidth },
+        { dictionary: varDict, rules: varRules, variantFrames }
+      ),
+    [cssInput, previewState, previewWidth, varDict, varRules, variantFrames]
+  );
+
+  // Both sample elements: the Figma declarations and the generated classes
+  const previewDoc = useMemo(() => {
+    const declarations = figmaPreview.declarations
+      .map(([property, value]) => `${property}: ${value};`)
+      .join("\n");
+    const label = (text: string) =>
+      `<p style="font: 12px system-ui; color: #6b7280; margin: 12px 0 4px">${text}</p>`;
+    return `<!doctype html><html><head>
+<style>${previewCSS.replace(/<\//g, "<\\/")}</style>
+<style>#figma { ${declarations.replace(/<\//g, "<\\/")} }</style>
+</head><body style="padding: 0 12px">
+${label("Figma CSS")}<div id="figma">The quick brown fox</div>
+${label("Classes")}<div id="classes" class="${escapeHTML(previewClassName)}">The quick brown fox</div>
+</body></html>`;
+  }, [figmaPreview, previewCSS, previewClassName]);
+
+  // The preview compiles with Tailwind v4, whose presets differ from v3 (e.g.
+  // rounded-sm), so v3 output is only compared where both versions agree
+  const uncomparedProperties = useMemo(
+    () =>
+      emitOptions.target === "v3"
+        ? versionDifferences(previewClassName.split(" ").filter(Boolean), theme)
+        : [],
+    [emitOptions.target, previewClassName, theme]
   );
 
-  const output = useMemo(() => {
-    const parsed = parseCSS(cssInput);
-    const tw = toTailwind(parsed);
-    const withPxStr = applyPrefixes(tw, prefixes);
-
-    // Parse existing classes
-    const existingClassesList = existingClasses
-      .split(/\s+/)
-      .map((c) => c.trim())
-      .filter(Boolean);
-
-    // Parse new classes (split the string back into array)
-    const newClassesList = withPxStr
-      .split(/\s+/)
-      .map((c) => c.trim())
-      .filter(Boolean);
-
-    // Merge existing classes with new classes
-    const merged = mergeClasses(existingClassesList, newClassesList);
-
-    return merged.join(" ");
-  }, [cssInput, prefixes, existingClasses, parseCSS]);
-
-  const copyToClipboard = () => {
-    navigator.clipboard.writeText(output);
-    setCopied(true);
-    setTimeout(() => setCopied(false), 800);
+  // Compare the computed styles of both sample elements
+  const comparePreview = (iframe: HTMLIFrameElement) => {
+    const doc = iframe.contentDocument;
+    const figma = doc?.getElementById("figma");
+    const classes = doc?.getElementById("classes");
+    if (!doc?.defaultView || !figma || !classes) return;
+    const figmaStyle = doc.defaultView.getComputedStyle(figma);
+    const classesStyle = doc.defaultView.getComputedStyle(classes);
+    const diff = Array.from(figmaStyle)
+      // Skip custom properties, vendor prefixes and logical aliases of the
+      // physical properties
+      .filter(
+        (property) =>
+          !/^(--|-webkit-)|-(block|inline)(-|$)|^(block|inline)-size$/.test(
+            property
+          )
+      )
+      // Dictionary-mapped properties have no CSS value on the Figma side,
+      // and v3-only values have none on the classes side
+      .filter(
+        (property) =>
+          ![...figmaPreview.mapped, ...uncomparedProperties].some(
+            (skipped) =>
+              property === skipped || property.startsWith(`${skipped}-`)
+          )
+      )
+      .map((property) => ({
+        property,
+        figma: figmaStyle.getPropertyValue(property),
+        classes: classesStyle.getPropertyValue(property),
+      }))
+      .filter((row) => row.figma !== row.classes);
+    setPreviewDiff(diff);
+  };
+
+  // Select a declaration's text in the CSS textarea
+  const highlightSource = (row: TraceRow) => {
+    const textarea = cssInputRef.current;
+    if (!textarea) return;
+    textarea.focus();
+    textarea.setSelectionRange(row.start, row.end);
+    // Scroll the selected line into view
+    const lineHeight = textarea.scrollHeight / cssInput.split("\n").length;
+    textarea.scrollTop = Math.max(0, (row.line - 2) * lineHeight);
+  };
+
+  const copyToClipboard = (text: string, key: string) => {
+    navigator.clipboard.writeText(text);
+    setCopied(key);
+    setTimeout(() => setCopied(null), 800);
   };
 
   const addVarMapping = () => {
@@ -620,20 +434,180 @@ export default function TailwindConverter() {
     }
   };
 
+  // Suggest a dictionary value for an unmapped variable from its fallback
+  // (a palette name for colors)
+  const suggestMapping = (fallback: string) => {
+    const rgba = parseColor(fallback);
+    const name =
+      rgba && rgba.a === 1 && matchColor(rgba, scales.palette, colorOptions);
+    return name || fallback;
+  };
+
+  const mapUnmapped = (key: string, value: string) => {
+    if (!value.trim()) return;
+    setVarDict((prev) => ({ ...prev, [key]: value.trim() }));
+    setUnmappedValues((prev) => {
+      const updated = { ...prev };
+      delete updated[key];
+      return updated;
+    });
+  };
+
+  const saveVarEdit = () => {
+    if (editingVar && editingValue.trim()) {
+      setVarDict((prev) => ({ ...prev, [editingVar]: editingValue.trim() }));
+    }
+    setEditingVar(null);
+  };
+
+  const addVarRule = () => {
+    if (newRule.pattern.trim() && newRule.replacement.trim()) {
+      setVarRules((prev) => [
+        ...prev,
+        {
+          ...newRule,
+          pattern: newRule.pattern.trim(),
+          replacement: newRule.replacement.trim(),
+        },
+      ]);
+      setNewRule({ pattern: "", replacement: "", glob: newRule.glob });
+    }
+  };
+
+  const removeVarRule = (index: number) => {
+    setVarRules((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  const importVariableFiles = async (files: FileList | null) => {
+    if (!files) return;
+    let imported = 0;
+    const modes = new Set<string>();
+    const warnings = new Set<string>();
+    try {
+      for (const file of Array.from(files)) {
+        const result = importVariables(
+          JSON.parse(await file.text()),
+          importMode,
+          scales
+        );
+        setVarDict((prev) => ({ ...prev, ...result.base }));
+        setVarModes((prev) => {
+          const updated = { ...prev };
+          for (const [variant, dict] of Object.entries(result.modes)) {
+            updated[variant] = { ...updated[variant], ...dict };
+          }
+          return updated;
+        });
+        result.warnings.forEach((warning) => warnings.add(warning));
+        imported += Object.keys(result.base).length;
+        for (const [variant, dict] of Object.entries(result.modes)) {
+          modes.add(variant);
+          imported += Object.keys(dict).length;
+        }
+      }
+      setImportStatus(
+        `Imported ${imported} values` +
+          (modes.size > 0 ? ` (modes: ${[...modes].join(", ")})` : "") +
+          [...warnings].map((warning) => `\n${warning}`).join("")
+      );
+    } catch (error) {
+      setImportStatus(
+        `Import failed: ${error instanceof Error ? error.message : error}`
+      );
+    }
+  };
+
+  const removeMode = (variant: string) => {
+    setVarModes((prev) => {
+      const updated = { ...prev };
+      delete updated[variant];
+      return updated;
+    });
+  };
+
+  const loadTheme = (css: string) => {
+    if (css.trim()) setTheme(parseTheme(css));
+  };
+
+  const uploadTheme = async (file: File | undefined) => {
+    if (!file) return;
+    const css = await file.text();
+    setThemeInput(css);
+    loadTheme(css);
+  };
+
+  const clearTheme = () => {
+    setTheme(null);
+    setThemeInput("");
+  };
+
+  const updateVariantFrame = (index: number, frame: Partial<VariantFrame>) => {
+    setVariantFrames((prev) =>
+      prev.map((existing, i) =>
+        i === index ? { ...existing, ...frame } : existing
+      )
+    );
+  };
+
+  const removeVariantFrame = (index: number) => {
+    setVariantFrames((prev) => prev.filter((_, i) => i !== index));
+  };
+
   const removeVarMapping = (key: string) => {
     setVarDict((prev) => {
       const updated = { ...prev };
       delete updated[key];
       return updated;
     });
+    setVarModes((prev) =>
+      Object.fromEntries(
+        Object.entries(prev).map(([variant, dict]) => {
+          const updated = { ...dict };
+          delete updated[key];
+          return [variant, updated];
+        })
+      )
+    );
   };
 
+  const renderFormatSelect = () => (
+    <select
+      className="border p-1 rounded text-sm bg-white"
+      value={outputFormat}
+      onChange={(e) => setOutputFormat(e.target.value as OutputFormat)}
+      aria-label="Output format"
+    >
+      {Object.entries(outputFormats).map(([format, label]) => (
+        <option key={format} value={format}>
+          {label}
+        </option>
+      ))}
+    </select>
+  );
+
+  // Generated classes that would do nothing, with the reason
+  const renderInvalidClasses = (invalid: InvalidClass[]) =>
+    invalid.length > 0 && (
+      <div className="text-sm text-gray-600 space-y-1">
+        <div>
+          Classes that would do nothing in Tailwind {emitOptions.target}:
+        </div>
+        {invalid.map(({ className, message }) => (
+          <div key={className} className="font-mono">
+            <span className="text-red-700">{className}</span>
+            <span className="ml-2 font-sans text-gray-500">{message}</span>
+          </div>
+        ))}
+      </div>
+    );
+
   return (
     <div className="space-y-4 max-w-2xl mx-auto p-4">
       <h2 className="text-xl font-semibold">Figma CSS → Tailwind Converter</h2>
 
       {/* CSS INPUT */}
       <textarea
+        ref={cssInputRef}
         rows={8}
         className="w-full border p-2 rounded"
         placeholder="Paste CSS from Figma..."
@@ -641,11 +615,21 @@ export default function TailwindConverter() {
         onChange={(e) => setCssInput(e.target.value)}
       />
 
+      <label className="flex items-center gap-2 text-sm">
+        <input
+          type="checkbox"
+          checked={multiBlock}
+          onChange={(e) => setMultiBlock(e.target.checked)}
+        />
+        Convert each layer (/* Layer name */ comment or selector) separately
+      </label>
+
       {/* EXISTING CLASSES INPUT */}
       <input
-        className="w-full border p-2 rounded"
+        className="w-full border p-2 rounded disabled:bg-gray-100"
         placeholder="Existing classes (e.g. text-sm font-bold)"
         value={existingClasses}
+        disabled={multiBlock}
         onChange={(e) => setExistingClasses(e.target.value)}
       />
 
@@ -657,6 +641,187 @@ export default function TailwindConverter() {
         onChange={(e) => setPrefixes(e.target.value)}
       />
 
+      {/* VARIANT FRAMES */}
+      {!multiBlock && (
+        <div className="border p-4 rounded space-y-3">
+          <h3 className="text-lg font-medium">Variant Frames</h3>
+          <p className="text-sm text-gray-600">
+            Paste the same component at other breakpoints or states. Only the
+            properties that differ from the base CSS above get a variant class
+            (e.g., md:p-6, hover:bg-gray-100)
+          </p>
+
+          {variantFrames.map((frame, i) => (
+            <div key={i} className="space-y-2">
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  className="flex-1 border p-2 rounded text-sm"
+                  placeholder="Variant (e.g., md, hover, md:hover)"
+                  value={frame.variant}
+                  onChange={(e) =>
+                    updateVariantFrame(i, { variant: e.target.value })
+                  }
+                />
+                <button
+                  onClick={() => removeVariantFrame(i)}
+                  className="px-2 py-1 text-xs bg-red-100 text-red-700 rounded hover:bg-red-200"
+                >
+                  Remove
+                </button>
+              </div>
+              <textarea
+                rows={4}
+                className="w-full border p-2 rounded text-sm"
+                placeholder="Paste CSS for this variant..."
+                value={frame.css}
+                onChange={(e) => updateVariantFrame(i, { css: e.target.value })}
+              />
+            </div>
+          ))}
+
+          <button
+            onClick={() =>
+              setVariantFrames((prev) => [...prev, { variant: "", css: "" }])
+            }
+            className="px-4 py-2 bg-black text-white rounded text-sm"
+          >
+            Add frame
+          </button>
+        </div>
+      )}
+
+      {/* SCALE SNAPPING */}
+      <div className="flex items-center gap-3 text-sm">
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={scaleOptions.enabled}
+            onChange={(e) =>
+              setScaleOptions((prev) => ({
+                ...prev,
+                enabled: e.target.checked,
+              }))
+            }
+          />
+          Snap to Tailwind scale
+        </label>
+        <select
+          className="border p-1 rounded"
+          value={scaleOptions.tolerance}
+          disabled={!scaleOptions.enabled}
+          onChange={(e) =>
+            setScaleOptions((prev) => ({
+              ...prev,
+              tolerance: Number(e.target.value),
+            }))
+          }
+        >
+          <option value={0}>Exact only</option>
+          <option value={1}>Nearest within 1px</option>
+          <option value={2}>Nearest within 2px</option>
+          <option value={4}>Nearest within 4px</option>
+        </select>
+      </div>
+
+      {/* COLOR MATCHING */}
+      <div className="flex items-center gap-3 text-sm">
+        <label className="flex items-center gap-2">
+          Palette colors
+          <select
+            className="border p-1 rounded"
+            value={colorOptions.match}
+            onChange={(e) =>
+              setColorOptions((prev) => ({
+                ...prev,
+                match: e.target.value as ColorOptions["match"],
+              }))
+            }
+          >
+            <option value="off">Off (arbitrary values)</option>
+            <option value="exact">Exact matches</option>
+            <option value="nearest">Nearest color</option>
+          </select>
+        </label>
+        <select
+          className="border p-1 rounded"
+          value={colorOptions.maxDistance}
+          disabled={colorOptions.match !== "nearest"}
+          onChange={(e) =>
+            setColorOptions((prev) => ({
+              ...prev,
+              maxDistance: Number(e.target.value),
+            }))
+          }
+        >
+          <option value={1}>Imperceptible difference</option>
+          <option value={2}>Close match</option>
+          <option value={5}>Loose match</option>
+        </select>
+      </div>
+
+      {/* TARGET */}
+      <div className="flex items-center gap-3 text-sm">
+        <label className="flex items-center gap-2">
+          Tailwind version
+          <select
+            className="border p-1 rounded"
+            value={emitOptions.target}
+            onChange={(e) =>
+              setEmitOptions((prev) => ({
+                ...prev,
+                target: e.target.value as TailwindTarget,
+              }))
+            }
+          >
+            <option value="v3">v3.x</option>
+            <option value="v4">v4</option>
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={emitOptions.keepVariables}
+            onChange={(e) =>
+              setEmitOptions((prev) => ({
+                ...prev,
+                keepVariables: e.target.checked,
+              }))
+            }
+          />
+          Keep unmapped variables (
+          {emitOptions.target === "v4" ? "bg-(--X)" : "bg-[var(--X)]"})
+        </label>
+      </div>
+
+      {/* OPTIMIZER */}
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm">
+        <span>Optimize:</span>
+        {(
+          [
+            ["axes", "pl + pr → px"],
+            ["sides", "px + py → p"],
+            ["size", "w + h → size"],
+            ["fontLeading", "text + leading → text-sm/6"],
+            ["defaults", "Drop defaults"],
+          ] as [keyof OptimizerOptions, string][]
+        ).map(([key, label]) => (
+          <label key={key} className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={optimizerOptions[key]}
+              onChange={(e) =>
+                setOptimizerOptions((prev) => ({
+                  ...prev,
+                  [key]: e.target.checked,
+                }))
+              }
+            />
+            {label}
+          </label>
+        ))}
+      </div>
+
       {/* VARIABLE DICTIONARY */}
       <div className="border p-4 rounded space-y-3">
         <h3 className="text-lg font-medium">Variable Dictionary</h3>
@@ -698,46 +863,719 @@ export default function TailwindConverter() {
           </button>
         </div>
 
-        {Object.keys(varDict).length > 0 && (
-          <div className="space-y-2">
-            {Object.entries(varDict).map(([key, value]) => (
-              <div
-                key={key}
-                className="flex items-center justify-between p-2 bg-gray-50 rounded"
+        {/* VARIABLE IMPORT */}
+        <div className="flex items-center gap-2">
+          <input
+            type="file"
+            accept=".json,application/json"
+            multiple
+            className="flex-1 text-sm"
+            onChange={(e) => {
+              importVariableFiles(e.target.files);
+              e.target.value = "";
+            }}
+          />
+          <input
+            type="text"
+            className="w-40 border p-2 rounded text-sm"
+            placeholder="Mode (e.g., dark)"
+            title="Mode of imported .tokens.json files; leave empty for the base mode. Figma variable exports include their modes."
+            value={importMode}
+            onChange={(e) => setImportMode(e.target.value)}
+          />
+        </div>
+        <p className="text-xs text-gray-500">
+          Import Figma variables or W3C design tokens (.tokens.json). Dark modes
+          add dark: classes (e.g., dark:bg-gray-900); other modes need a custom
+          variant.
+        </p>
+        {importStatus && (
+          <p className="text-sm text-gray-700 whitespace-pre-line">
+            {importStatus}
+          </p>
+        )}
+
+        {Object.keys(varModes).length > 0 && (
+          <div className="flex flex-wrap gap-2 text-sm">
+            {Object.entries(varModes).map(([variant, dict]) => (
+              <span
+                key={variant}
+                className="flex items-center gap-2 px-2 py-1 bg-gray-50 rounded"
               >
-                <span className="text-sm">
-                  <span className="font-mono text-gray-700">{key}</span>
-                  <span className="mx-2 text-gray-400">→</span>
-                  <span className="font-mono text-gray-900">{value}</span>
+                <span className="font-mono">{variant}:</span>
+                <span className="text-gray-600">
+                  {Object.keys(dict).length} values
                 </span>
                 <button
-                  onClick={() => removeVarMapping(key)}
+                  onClick={() => removeMode(variant)}
                   className="px-2 py-1 text-xs bg-red-100 text-red-700 rounded hover:bg-red-200"
                 >
                   Remove
                 </button>
-              </div>
+              </span>
             ))}
           </div>
         )}
+
+        {/* UNMAPPED VARIABLES */}
+        {Object.keys(unmappedVariables).length > 0 && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium">
+              Unmapped variables in this CSS
+            </h4>
+            {Object.entries(unmappedVariables).map(([key, fallback]) => {
+              const value = unmappedValues[key] ?? suggestMapping(fallback);
+              return (
+                <div key={key} className="flex items-center gap-2 text-sm">
+                  <span className="flex-1 font-mono text-gray-700">
+                    {key}
+                    {fallback && (
+                      <span className="ml-2 text-xs text-gray-500">
+                        fallback: {fallback}
+                      </span>
+                    )}
+                  </span>
+                  <input
+                    type="text"
+                    className="w-40 border p-1 rounded text-sm"
+                    placeholder="Tailwind value"
+                    value={value}
+                    onChange={(e) =>
+                      setUnmappedValues((prev) => ({
+                        ...prev,
+                        [key]: e.target.value,
+                      }))
+                    }
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") mapUnmapped(key, value);
+                    }}
+                  />
+                  <button
+                    onClick={() => mapUnmapped(key, value)}
+                    className="px-2 py-1 text-xs bg-black text-white rounded"
+                  >
+                    Map
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {/* PATTERN RULES */}
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium">Pattern rules</h4>
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              className="flex-1 border p-2 rounded text-sm font-mono"
+              placeholder={
+                newRule.glob ? "--Color-Brand-*" : "--Color-Brand-(\\d+)"
+              }
+              value={newRule.pattern}
+              onChange={(e) =>
+                setNewRule((prev) => ({ ...prev, pattern: e.target.value }))
+              }
+            />
+            <input
+              type="text"
+              className="flex-1 border p-2 rounded text-sm font-mono"
+              placeholder="brand-$1"
+              value={newRule.replacement}
+              onChange={(e) =>
+                setNewRule((prev) => ({
+                  ...prev,
+                  replacement: e.target.value,
+                }))
+              }
+              onKeyDown={(e) => {
+                if (e.key === "Enter") addVarRule();
+              }}
+            />
+            <label className="flex items-center gap-1 text-sm">
+              <input
+                type="checkbox"
+                checked={newRule.glob}
+                onChange={(e) =>
+                  setNewRule((prev) => ({ ...prev, glob: e.target.checked }))
+                }
+              />
+              Glob
+            </label>
+            <button
+              onClick={addVarRule}
+              className="px-4 py-2 bg-black text-white rounded text-sm"
+            >
+              Add
+            </button>
+          </div>
+          {varRules.map((rule, i) => (
+            <div
+              key={i}
+              className="flex items-center justify-between p-2 bg-gray-50 rounded text-sm"
+            >
+              <span>
+                <span className="font-mono text-gray-700">{rule.pattern}</span>
+                <span className="mx-2 text-gray-400">→</span>
+                <span className="font-mono text-gray-900">
+                  {rule.replacement}
+                </span>
+                <span className="ml-2 text-xs text-gray-500">
+                  {rule.glob ? "glob" : "regex"}
+                </span>
+                {!ruleRegex(rule) && (
+                  <span className="ml-2 text-xs text-red-700">
+                    invalid pattern
+                  </span>
+                )}
+              </span>
+              <button
+                onClick={() => removeVarRule(i)}
+                className="px-2 py-1 text-xs bg-red-100 text-red-700 rounded hover:bg-red-200"
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+          {Object.entries(ruleMappings).map(([key, value]) => (
+            <div key={key} className="text-xs font-mono text-gray-600">
+              {key} → {value}
+            </div>
+          ))}
+        </div>
+
+        {Object.keys(varDict).length > 0 && (
+          <div className="space-y-2">
+            <input
+              type="text"
+              className="w-full border p-2 rounded text-sm"
+              placeholder="Search variables and values..."
+              value={varSearch}
+              onChange={(e) => setVarSearch(e.target.value)}
+            />
+            {Object.entries(varDict)
+              .filter(([key, value]) =>
+                `${key} ${value}`
+                  .toLowerCase()
+                  .includes(varSearch.trim().toLowerCase())
+              )
+              .map(([key, value]) => (
+                <div
+                  key={key}
+                  className="flex items-center justify-between gap-2 p-2 bg-gray-50 rounded"
+                >
+                  <span className="flex-1 text-sm">
+                    <span className="font-mono text-gray-700">{key}</span>
+                    <span className="mx-2 text-gray-400">→</span>
+                    {editingVar === key ? (
+                      <input
+                        type="text"
+                        autoFocus
+                        className="border p-1 rounded text-sm font-mono"
+                        value={editingValue}
+                        onChange={(e) => setEditingValue(e.target.value)}
+                        onBlur={saveVarEdit}
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter") saveVarEdit();
+                          if (e.key === "Escape") setEditingVar(null);
+                        }}
+                      />
+                    ) : (
+                      <button
+                        className="font-mono text-gray-900 hover:underline"
+                        title="Click to edit"
+                        onClick={() => {
+                          setEditingVar(key);
+                          setEditingValue(value);
+                        }}
+                      >
+                        {value}
+                      </button>
+                    )}
+                    {Object.entries(varModes)
+                      .filter(([, dict]) => dict[key])
+                      .map(([variant, dict]) => (
+                        <span
+                          key={variant}
+                          className="ml-2 font-mono text-xs text-gray-500"
+                        >
+                          {variant}: {dict[key]}
+                        </span>
+                      ))}
+                    <span className="block text-xs text-gray-500">
+                      Valid for: {dictValueNote(value, scales)}
+                    </span>
+                  </span>
+                  <button
+                    onClick={() => removeVarMapping(key)}
+                    className="px-2 py-1 text-xs bg-red-100 text-red-700 rounded hover:bg-red-200"
+                  >
+                    Remove
+                  </button>
+                </div>
+              ))}
+          </div>
+        )}
+      </div>
+
+      {/* THEME */}
+      <div className="border p-4 rounded space-y-3">
+        <h3 className="text-lg font-medium">Theme</h3>
+        <p className="text-sm text-gray-600">
+          Paste or upload the stylesheet containing your Tailwind v4 @theme
+          block so colors, font sizes, spacing and radii map to your theme names
+          (e.g., #1E40AF → text-brand-700)
+        </p>
+
+        <textarea
+          rows={4}
+          className="w-full border p-2 rounded text-sm font-mono"
+          placeholder="@theme { --color-brand-700: #1E40AF; --text-body: 15px; }"
+          value={themeInput}
+          onChange={(e) => setThemeInput(e.target.value)}
+        />
+
+        <div className="flex items-center gap-2">
+          <input
+            type="file"
+            accept=".css,text/css"
+            className="flex-1 text-sm"
+            onChange={(e) => uploadTheme(e.target.files?.[0])}
+          />
+          <button
+            onClick={() => loadTheme(themeInput)}
+            className="px-4 py-2 bg-black text-white rounded text-sm whitespace-nowrap"
+          >
+            Load theme
+          </button>
+          {theme && (
+            <button
+              onClick={clearTheme}
+              className="px-4 py-2 text-sm bg-red-100 text-red-700 rounded hover:bg-red-200"
+            >
+              Clear
+            </button>
+          )}
+        </div>
+
+        {theme && (
+          <p className="text-sm text-gray-700">
+            Loaded {Object.keys(theme.colors).length} colors,{" "}
+            {Object.keys(theme.fontSizes).length} font sizes,{" "}
+            {Object.keys(theme.fonts).length} fonts,{" "}
+            {Object.keys(theme.spacing).length} spacing values,{" "}
+            {Object.keys(theme.radii).length} radii and{" "}
+            {Object.keys(theme.shadows).length} shadows
+            {theme.spacingBase && ` (spacing base ${theme.spacingBase})`}
+          </p>
+        )}
       </div>
 
       {/* OUTPUT */}
-      <div className="relative">
+      {multiBlock ? (
+        <div className="space-y-3">
+          {renderFormatSelect()}
+          {result.layers.map((layer, i) => {
+            const formatted = formatClasses(
+              layer.classes.split(" ").filter(Boolean),
+              outputFormat,
+              layer.name
+            );
+            return (
+              <div key={i} className="space-y-1">
+                <div className="text-sm font-medium text-gray-700">
+                  {layer.name}
+                </div>
+                <div className="relative">
+                  <textarea
+                    rows={Math.max(2, formatted.split("\n").length)}
+                    readOnly
+                    className="w-full border p-2 pr-20 rounded bg-gray-100"
+                    value={formatted}
+                  />
+                  <button
+                    onClick={() => copyToClipboard(formatted, `layer-${i}`)}
+                    className="absolute top-2 right-2 px-3 py-1 bg-black text-white text-sm rounded"
+                  >
+                    {copied === `layer-${i}` ? "Copied!" : "Copy"}
+                  </button>
+                </div>
+                {renderInvalidClasses(layer.invalid)}
+              </div>
+            );
+          })}
+          {result.layers.length > 0 && (
+            <button
+              onClick={() =>
+                copyToClipboard(
+                  JSON.stringify(
+                    result.layers.map(({ name, classes }) => ({
+                      name,
+                      classes,
+                    })),
+                    null,
+                    2
+                  ),
+                  "json"
+                )
+              }
+              className="px-4 py-2 bg-black text-white rounded text-sm"
+            >
+              {copied === "json" ? "Copied!" : "Copy all as JSON"}
+            </button>
+          )}
+        </div>
+      ) : (
+        <div className="relative">
+          <textarea
+            rows={Math.max(4, formattedOutput.split("\n").length)}
+            readOnly
+            className="w-full border p-2 pr-56 rounded bg-gray-100"
+            value={formattedOutput}
+            placeholder="Tailwind output will appear here..."
+          />
+          <div className="absolute top-2 right-2 flex gap-2">
+            {renderFormatSelect()}
+            <button
+              onClick={() => copyToClipboard(formattedOutput, "output")}
+              className="px-3 py-1 bg-black text-white text-sm rounded"
+            >
+              {copied === "output" ? "Copied!" : "Copy"}
+            </button>
+          </div>
+          {result.removed.length > 0 && (
+            <div className="text-sm text-gray-600 space-y-1">
+              <div>Replaced classes:</div>
+              {result.removed.map(({ className, replacedBy }) => (
+                <div key={className} className="font-mono">
+                  <span className="line-through text-red-700">{className}</span>
+                  <span className="mx-2 text-gray-400">→</span>
+                  <span className="text-gray-900">{replacedBy}</span>
+                </div>
+              ))}
+            </div>
+          )}
+          {renderInvalidClasses(result.invalid)}
+        </div>
+      )}
+
+      {/* PREVIEW */}
+      {cssInput.trim() && (
+        <div className="space-y-2">
+          <h3 className="text-lg font-medium">Preview</h3>
+          <div className="flex items-center gap-3 text-sm">
+            <label className="flex items-center gap-2">
+              Viewport
+              <select
+                className="border p-1 rounded"
+                value={previewWidth}
+                onChange={(e) => setPreviewWidth(Number(e.target.value))}
+              >
+                {previewWidths.map((width) => (
+                  <option key={width} value={width}>
+                    {width}px
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-2">
+              State
+              <select
+                className="border p-1 rounded"
+                value={previewState}
+                onChange={(e) => setPreviewState(e.target.value)}
+              >
+                <option value="">None</option>
+                {previewStates.map((state) => (
+                  <option key={state} value={state}>
+                    {state}
+                  </option>
+                ))}
+              </select>
+            </label>
+            {emitOptions.target === "v3" && (
+              <span className="text-gray-500">Rendered with Tailwind v4</span>
+            )}
+            {figmaPreview.mapped.length > 0 && (
+              <span className="text-gray-500">
+                Dictionary-mapped properties are not compared
+              </span>
+            )}
+          </div>
+          <div className="overflow-x-auto border rounded">
+            {/* No scripts; same-origin only so comparePreview can read the
+                computed styles */}
+            <iframe
+              title="Preview"
+              sandbox="allow-same-origin"
+              srcDoc={previewDoc}
+              width={previewWidth}
+              height={220}
+              onLoad={(e) => comparePreview(e.currentTarget)}
+            />
+          </div>
+          {uncomparedProperties.length > 0 && (
+            <p className="text-sm text-gray-600">
+              Not compared, Tailwind v3 generates different values:{" "}
+              <span className="font-mono">
+                {uncomparedProperties.join(" ")}
+              </span>
+            </p>
+          )}
+          {previewDiff.length === 0 ? (
+            <p className="text-sm text-green-700">
+              Both elements compute the same styles
+            </p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-600">
+                  <th className="p-1">Property</th>
+                  <th className="p-1">Figma CSS</th>
+                  <th className="p-1">Classes</th>
+                </tr>
+              </thead>
+              <tbody>
+                {previewDiff.map((row) => (
+                  <tr key={row.property} className="border-t">
+                    <td className="p-1 font-mono">{row.property}</td>
+                    <td className="p-1 font-mono">{row.figma}</td>
+                    <td className="p-1 font-mono text-red-700">
+                      {row.classes}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+
+      {/* CONVERSION TRACE */}
+      {trace.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="text-lg font-medium">Conversion trace</h3>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-600">
+                <th className="p-1">Line</th>
+                <th className="p-1">Declaration</th>
+                <th className="p-1">Classes</th>
+                <th className="p-1">Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {trace.map((row) => (
+                <tr
+                  key={row.start}
+                  className="border-t cursor-pointer hover:bg-gray-50"
+                  onClick={() => highlightSource(row)}
+                >
+                  <td className="p-1 text-gray-500">{row.line}</td>
+                  <td className="p-1 font-mono">
+                    {row.property ? `${row.property}: ${row.value}` : row.value}
+                  </td>
+                  <td className="p-1 font-mono">{row.classes.join(" ")}</td>
+                  <td className="p-1">
+                    <span className={traceStatusColors[row.status]}>
+                      {row.status}
+                    </span>
+                    {row.message && (
+                      <div className="text-xs text-gray-500">{row.message}</div>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* REVERSE CONVERSION */}
+      <div className="space-y-2">
+        <h3 className="text-lg font-medium">Classes as CSS</h3>
+        <div className="flex gap-2 text-sm">
+          <button
+            onClick={() => setReverseInput(result.className)}
+            className="px-3 py-1 border rounded"
+          >
+            Use output
+          </button>
+          <button
+            onClick={() => setReverseInput(existingClasses)}
+            className="px-3 py-1 border rounded"
+          >
+            Use existing classes
+          </button>
+        </div>
+        <textarea
+          rows={2}
+          className="w-full border p-2 rounded font-mono text-sm"
+          placeholder="Classes to explain (e.g. px-4 md:hover:bg-[#123456])"
+          value={reverseInput}
+          onChange={(e) => setReverseInput(e.target.value)}
+        />
+        {reverse.groups.length > 0 && (
+          <div className="relative">
+            <textarea
+              rows={Math.min(20, reverse.css.split("\n").length)}
+              readOnly
+              className="w-full border p-2 rounded bg-gray-100 font-mono text-sm"
+              value={reverse.css}
+            />
+            <button
+              onClick={() => copyToClipboard(reverse.css, "reverse")}
+              className="absolute top-2 right-2 px-3 py-1 bg-black text-white text-sm rounded"
+            >
+              {copied === "reverse" ? "Copied!" : "Copy"}
+            </button>
+          </div>
+        )}
+        {reverse.unknown.length > 0 && (
+          <p className="text-sm text-red-700">
+            No known CSS for:{" "}
+            <span className="font-mono">{reverse.unknown.join(" ")}</span>
+          </p>
+        )}
+      </div>
+
+      {/* NODE TREE */}
+      <div className="space-y-2">
+        <h3 className="text-lg font-medium">Figma nodes as markup</h3>
+        <div className="flex gap-2 text-sm">
+          <select
+            className="border p-1 rounded"
+            value={nodeMarkup}
+            onChange={(e) => setNodeMarkup(e.target.value as MarkupFormat)}
+            aria-label="Markup"
+          >
+            <option value="jsx">JSX</option>
+            <option value="html">HTML</option>
+          </select>
+          <select
+            className="border p-1 rounded"
+            value={nodeLayerNames}
+            onChange={(e) =>
+              setNodeLayerNames(e.target.value as LayerNameOutput)
+            }
+            aria-label="Layer names"
+          >
+            <option value="comment">Layer names as comments</option>
+            <option value="attribute">Layer names as data-layer</option>
+            <option value="none">No layer names</option>
+          </select>
+        </div>
         <textarea
           rows={4}
-          readOnly
-          className="w-full border p-2 rounded bg-gray-100"
-          value={output}
-          placeholder="Tailwind output will appear here..."
+          className="w-full border p-2 rounded font-mono text-sm"
+          placeholder="Node JSON from the Figma REST API (GET /v1/files/:key/nodes) or a plugin export"
+          value={nodeInput}
+          onChange={(e) => setNodeInput(e.target.value)}
         />
-        <button
-          onClick={copyToClipboard}
-          className="absolute top-2 right-2 px-3 py-1 bg-black text-white text-sm rounded"
-        >
-          {copied ? "Copied!" : "Copy"}
-        </button>
+        {nodeTree && "error" in nodeTree && (
+          <p className="text-sm text-red-700">{nodeTree.error}</p>
+        )}
+        {nodeTree && "markup" in nodeTree && (
+          <>
+            <div className="relative">
+              <textarea
+                rows={Math.min(20, nodeTree.markup.split("\n").length)}
+                readOnly
+                className="w-full border p-2 rounded bg-gray-100 font-mono text-sm"
+                value={nodeTree.markup}
+              />
+              <button
+                onClick={() => copyToClipboard(nodeTree.markup, "nodes")}
+                className="absolute top-2 right-2 px-3 py-1 bg-black text-white text-sm rounded"
+              >
+                {copied === "nodes" ? "Copied!" : "Copy"}
+              </button>
+            </div>
+            {nodeTree.warnings.length > 0 && (
+              <div className="text-sm text-amber-700 space-y-1">
+                {nodeTree.warnings.map((warning) => (
+                  <div key={warning}>{warning}</div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
       </div>
+
+      {/* ROUND TRIP */}
+      {roundTrip.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="text-lg font-medium">Round trip</h3>
+          <div className="flex items-center gap-3 text-sm text-gray-600">
+            <span>
+              {roundTrip.length - roundTripDiffs.length} of {roundTrip.length}{" "}
+              properties survive CSS → classes → CSS unchanged
+            </span>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={showSameRows}
+                onChange={(e) => setShowSameRows(e.target.checked)}
+              />
+              Show unchanged
+            </label>
+          </div>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-600">
+                <th className="p-1">Property</th>
+                <th className="p-1">Original</th>
+                <th className="p-1">Round trip</th>
+                <th className="p-1">Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {(showSameRows ? roundTrip : roundTripDiffs).map((row) => (
+                <tr key={row.property} className="border-t">
+                  <td className="p-1 font-mono">{row.property}</td>
+                  <td className="p-1 font-mono">{row.original ?? "—"}</td>
+                  <td className="p-1 font-mono">
+                    {row.roundTrip ?? "—"}
+                    {row.className && (
+                      <div className="text-xs text-gray-500">
+                        {row.className}
+                      </div>
+                    )}
+                  </td>
+                  <td className="p-1">
+                    <span className={roundTripStatusColors[row.status]}>
+                      {row.status}
+                    </span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* VARIABLE THEME OUTPUT */}
+      {variableTheme && (
+        <div className="space-y-2">
+          <p className="text-sm text-gray-600">
+            Add this block to your stylesheet so the kept variables resolve
+          </p>
+          <div className="relative">
+            <textarea
+              rows={6}
+              readOnly
+              className="w-full border p-2 rounded bg-gray-100"
+              value={variableTheme}
+            />
+            <button
+              onClick={() => copyToClipboard(variableTheme, "theme")}
+              className="absolute top-2 right-2 px-3 py-1 bg-black text-white text-sm rounded"
+            >
+              {copied === "theme" ? "Copied!" : "Copy"}
+            </button>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,6 @@
+#!/usr/bin/env node
+// Entry point of the installed figma-tw command: loads the TypeScript CLI
+// through tsx, so it runs without a build step
+import { tsImport } from "tsx/esm/api";
+
+await tsImport("./figma-tw.ts", import.meta.url);
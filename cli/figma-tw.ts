@@ -0,0 +1,257 @@
+#!/usr/bin/env -S npx tsx
+import { readFile } from "node:fs/promises";
+import { parseArgs } from "node:util";
+import {
+  classesToCSS,
+  convertCSS,
+  convertNodeTree,
+  formatClasses,
+  importVariables,
+  outputFormats,
+  parseTheme,
+  resolveScales,
+  type ConvertOptions,
+  type LayerNameOutput,
+  type OutputFormat,
+  type TailwindTarget,
+  type VarDict,
+  type VarModes,
+} from "../lib/converter";
+
+const usage = `Usage: figma-tw [options] [file.css ...]
+
+Convert CSS copied from Figma to Tailwind classes (or, with --reverse,
+classes to CSS, and with --nodes, Figma node JSON to markup). Reads stdin
+when no file (or "-") is given.
+
+Options:
+  -d, --dict <file>        Variable dictionary JSON ({ "--X": "value" }), or a
+                           Figma variables / W3C design tokens export
+  -p, --prefixes <list>    Variants applied to every class (e.g. "md hover")
+  -e, --existing <list>    Existing classes to merge the output into
+  -t, --target <v3|v4>     Tailwind version (default: v3)
+      --theme <file>       Stylesheet with a Tailwind v4 @theme block
+      --keep-variables     Keep unmapped CSS variables instead of fallbacks
+      --layers             Convert each layer block separately
+  -f, --format <format>    Output shape: ${Object.keys(outputFormats).join(", ")}
+                           (default: className)
+  -r, --reverse            Explain class lists as the CSS they generate
+  -n, --nodes              Convert Figma node JSON (REST or plugin export) to
+                           nested JSX
+      --html               With --nodes, print HTML instead of JSX
+      --layer-names <mode>
+                           With --nodes, layer names as comment (default),
+                           attribute (data-layer) or none
+      --json               Print the results as JSON
+  -h, --help               Show this help`;
+
+// Bad arguments exit with 2, conversion/IO failures with 1
+class UsageError extends Error {}
+
+const readStdin = async () => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks).toString("utf8");
+};
+
+// Load a plain dictionary, or import a variables/tokens export with its modes
+const loadDictionary = async (
+  file: string,
+  options: ConvertOptions
+): Promise<{ dictionary: VarDict; modes: VarModes }> => {
+  const json: unknown = JSON.parse(await readFile(file, "utf8"));
+  const isPlain =
+    typeof json === "object" &&
+    json !== null &&
+    !Array.isArray(json) &&
+    Object.values(json).every((value) => typeof value === "string");
+  if (isPlain) return { dictionary: json as VarDict, modes: {} };
+
+  const { base, modes, warnings } = importVariables(
+    json,
+    "",
+    resolveScales(options.theme ?? null, options.target)
+  );
+  for (const warning of warnings) console.error(`warning: ${warning}`);
+  return { dictionary: base, modes };
+};
+
+const parseCommandLine = () => {
+  try {
+    return parseArgs({
+      allowPositionals: true,
+      options: {
+        dict: { type: "string", short: "d" },
+        prefixes: { type: "string", short: "p" },
+        existing: { type: "string", short: "e" },
+        target: { type: "string", short: "t" },
+        theme: { type: "string" },
+        "keep-variables": { type: "boolean" },
+        layers: { type: "boolean" },
+        format: { type: "string", short: "f" },
+        reverse: { type: "boolean", short: "r" },
+        nodes: { type: "boolean", short: "n" },
+        html: { type: "boolean" },
+        "layer-names": { type: "string" },
+        json: { type: "boolean" },
+        help: { type: "boolean", short: "h" },
+      },
+    });
+  } catch (error) {
+    throw new UsageError(
+      error instanceof Error ? error.message : String(error)
+    );
+  }
+};
+
+const main = async () => {
+  const { values, positionals } = parseCommandLine();
+
+  if (values.help) {
+    console.log(usage);
+    return;
+  }
+  const target = values.target ?? "v3";
+  if (target !== "v3" && target !== "v4") {
+    throw new UsageError(`Unknown target "${target}" (expected v3 or v4)`);
+  }
+  const layerNames = values["layer-names"] ?? "comment";
+  if (!["comment", "attribute", "none"].includes(layerNames)) {
+    throw new UsageError(`Unknown layer names mode "${layerNames}"`);
+  }
+  const format = values.format ?? "className";
+  if (!Object.hasOwn(outputFormats, format)) {
+    throw new UsageError(`Unknown format "${format}"`);
+  }
+
+  const options: ConvertOptions = {
+    prefixes: values.prefixes,
+    existingClasses: values.existing,
+    target: target as TailwindTarget,
+    keepVariables: values["keep-variables"],
+    layers: values.layers,
+    theme: values.theme
+      ? parseTheme(await readFile(values.theme, "utf8"))
+      : null,
+  };
+  if (values.dict) {
+    const { dictionary, modes } = await loadDictionary(values.dict, options);
+    options.dictionary = dictionary;
+    options.modes = modes;
+  }
+
+  const files = positionals.length > 0 ? positionals : ["-"];
+  const read = (file: string) =>
+    file === "-" ? readStdin() : readFile(file, "utf8");
+
+  if (values.nodes) {
+    const trees = [];
+    for (const file of files) {
+      let json: unknown;
+      try {
+        json = JSON.parse(await read(file));
+      } catch (error) {
+        throw new Error(
+          `${file}: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+      trees.push({
+        file,
+        ...convertNodeTree(json, {
+          theme: options.theme,
+          target: options.target,
+          markup: values.html ? "html" : "jsx",
+          layerNames: layerNames as LayerNameOutput,
+        }),
+      });
+    }
+    if (values.json) {
+      console.log(JSON.stringify(trees, null, 2));
+      return;
+    }
+    for (const { file, markup, warnings } of trees) {
+      const label = files.length > 1 ? `${file}: ` : "";
+      if (files.length > 1) console.log(`/* ${file} */`);
+      console.log(markup);
+      for (const warning of warnings) {
+        console.error(`${label}warning: ${warning}`);
+      }
+    }
+    return;
+  }
+
+  if (values.reverse) {
+    const explained = [];
+    for (const file of files) {
+      explained.push({ file, ...classesToCSS(await read(file), options) });
+    }
+    if (values.json) {
+      console.log(JSON.stringify(explained, null, 2));
+      return;
+    }
+    for (const { file, css, unknown } of explained) {
+      if (files.length > 1) console.log(`/* ${file} */`);
+      console.log(css);
+      for (const className of unknown) {
+        console.error(
+          `${files.length > 1 ? `${file}: ` : ""}warning: no known CSS for ${className}`
+        );
+      }
+    }
+    return;
+  }
+
+  const results = [];
+  for (const file of files) {
+    results.push({ file, ...convertCSS(await read(file), options) });
+  }
+
+  if (values.json) {
+    console.log(
+      JSON.stringify(
+        results.map((result) => ({
+          file: result.file,
+          classes: result.classes,
+          className: result.className,
+          formatted: values.format
+            ? formatClasses(result.classes, format as OutputFormat)
+            : undefined,
+          layers: result.layers.map(({ name, classes }) => ({ name, classes })),
+          variableTheme: result.variableTheme || undefined,
+          warnings: result.warnings,
+        })),
+        null,
+        2
+      )
+    );
+    return;
+  }
+
+  for (const result of results) {
+    const label = files.length > 1 ? `${result.file}: ` : "";
+    if (values.layers) {
+      for (const layer of result.layers) {
+        const classes = layer.classes.split(" ").filter(Boolean);
+        console.log(
+          `${label}${layer.name}: ${formatClasses(classes, format as OutputFormat, layer.name)}`
+        );
+      }
+    } else {
+      console.log(
+        `${label}${formatClasses(result.classes, format as OutputFormat)}`
+      );
+    }
+    if (result.variableTheme) console.log(result.variableTheme);
+    for (const warning of result.warnings) {
+      console.error(`${label}warning: ${warning}`);
+    }
+  }
+};
+
+main().catch((error) => {
+  console.error(
+    `figma-tw: ${error instanceof Error ? error.message : String(error)}`
+  );
+  if (error instanceof UsageError) console.error(usage);
+  process.exit(error instanceof UsageError ? 2 : 1);
+});
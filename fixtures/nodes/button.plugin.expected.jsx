@@ -0,0 +1,9 @@
+<>
+  {/* Button / Primary */}
+  <div className="flex justify-center items-center gap-2 py-2 px-4 rounded-lg bg-gradient-to-r from-indigo-600 to-purple-600 shadow-sm">
+    {/* Icon */}
+    <div className="size-4" />
+    {/* Label */}
+    <p className="text-white text-center text-sm/5 font-semibold font-[Inter]">Get started</p>
+  </div>
+</>
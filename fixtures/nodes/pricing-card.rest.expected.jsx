@@ -0,0 +1,22 @@
+<>
+  {/* Pricing card */}
+  <div className="flex overflow-hidden flex-col items-start gap-4 p-6 relative w-80 rounded-xl border border-gray-200 bg-white shadow">
+    {/* Header */}
+    <div className="flex justify-between items-center self-stretch">
+      <p className="text-gray-900 text-lg/7 font-semibold font-[Inter]">Pro plan</p>
+      {/* Badge */}
+      <div className="flex items-center py-0.5 px-2 rounded-full bg-blue-500/10">
+        {/* Label */}
+        <p className="text-blue-700 text-xs/4 font-medium tracking-[0.3px] font-[Inter] uppercase">New</p>
+      </div>
+    </div>
+    {/* Price */}
+    <p className="self-stretch text-gray-900 text-sm/10 font-[Inter] tabular-nums"><span className="text-4xl font-bold">$24</span> / month</p>
+    {/* Description */}
+    <p className="self-stretch text-gray-600 text-sm/5 font-[Inter] line-clamp-3 text-ellipsis">Everything in Free, plus unlimited projects and priority support.<br />Cancel anytime.</p>
+    {/* Divider */}
+    <div className="self-stretch h-px bg-gray-200" />
+    {/* Status dot */}
+    <div className="absolute top-2 left-[304px] size-2 rounded-[50%] bg-green-500" />
+  </div>
+</>
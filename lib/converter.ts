@@ -0,0 +1,8191 @@
+export interface VarDict {
+  [key: string]: string; // key: CSS variable name (e.g., "--Border-Medium", "--Heading-Font"), value: Tailwind class value (e.g., "border-gray-400", "mackinac")
+}
+
+// Tailwind version the classes are written for
+export type TailwindTarget = "v3" | "v4";
+
+export interface EmitOptions {
+  target: TailwindTarget;
+  keepVariables: boolean; // keep unmapped CSS variables (bg-(--x)) instead of their fallbacks
+}
+
+export interface ScaleOptions {
+  enabled: boolean; // snap px/rem values to Tailwind scale classes instead of arbitrary values
+  tolerance: number; // max distance in px to the nearest scale step (0 = exact matches only)
+}
+
+// Default font weight mapping
+const defaultFontWeightMap: Record<string, string> = {
+  "100": "thin",
+  "200": "extralight",
+  "300": "light",
+  "400": "normal",
+  "500": "medium",
+  "600": "semibold",
+  "700": "bold",
+  "800": "extrabold",
+  "900": "black",
+};
+
+// Default font size mapping (px to Tailwind size)
+const defaultFontSizeMap: Record<string, string> = {
+  "12": "xs",
+  "14": "sm",
+  "16": "base",
+  "18": "lg",
+  "20": "xl",
+  "24": "2xl",
+  "30": "3xl",
+  "36": "4xl",
+  "48": "5xl",
+  "60": "6xl",
+  "72": "7xl",
+  "96": "8xl",
+  "128": "9xl",
+};
+
+// Line heights that come with the default font sizes (text-sm also sets
+// line-height: 20px)
+const defaultFontSizeLeading: Record<string, string> = {
+  xs: "16px",
+  sm: "20px",
+  base: "24px",
+  lg: "28px",
+  xl: "28px",
+  "2xl": "32px",
+  "3xl": "36px",
+  "4xl": "40px",
+  "5xl": "1",
+  "6xl": "1",
+  "7xl": "1",
+  "8xl": "1",
+  "9xl": "1",
+};
+
+// Default line height mapping
+const defaultLineHeightMap: Record<string, string> = {
+  "1": "none",
+  "1.25": "tight",
+  "1.375": "snug",
+  "1.5": "normal",
+  "1.625": "relaxed",
+  "2": "loose",
+};
+
+// Default letter spacing mapping
+const defaultLetterSpacingMap: Record<string, string> = {
+  "-0.05em": "tighter",
+  "-0.025em": "tight",
+  "0em": "normal",
+  "0.025em": "wide",
+  "0.05em": "wider",
+  "0.1em": "widest",
+};
+
+// Spacing scale (px to Tailwind step), used for margin, padding, gap, width and height
+const defaultSpacingScale: Record<string, string> = {
+  "0": "0",
+  "1": "px",
+  "2": "0.5",
+  "4": "1",
+  "6": "1.5",
+  "8": "2",
+  "10": "2.5",
+  "12": "3",
+  "14": "3.5",
+  "16": "4",
+  "20": "5",
+  "24": "6",
+  "28": "7",
+  "32": "8",
+  "36": "9",
+  "40": "10",
+  "44": "11",
+  "48": "12",
+  "56": "14",
+  "64": "16",
+  "80": "20",
+  "96": "24",
+  "112": "28",
+  "128": "32",
+  "144": "36",
+  "160": "40",
+  "176": "44",
+  "192": "48",
+  "208": "52",
+  "224": "56",
+  "240": "60",
+  "256": "64",
+  "288": "72",
+  "320": "80",
+  "384": "96",
+};
+
+// Border radius scale (px to Tailwind size, "" is the bare `rounded` class)
+const defaultRadiusScale: Record<string, string> = {
+  "0": "none",
+  "2": "sm",
+  "4": "",
+  "6": "md",
+  "8": "lg",
+  "12": "xl",
+  "16": "2xl",
+  "24": "3xl",
+  "9999": "full",
+};
+
+// Tailwind v4 renamed the small radii (rounded-sm → rounded-xs, rounded → rounded-sm)
+const defaultRadiusScaleV4: Record<string, string> = {
+  ...defaultRadiusScale,
+  "2": "xs",
+  "4": "sm",
+  "32": "4xl",
+};
+
+// Box shadow presets (shadow to Tailwind size, "" is the bare `shadow` class)
+const defaultShadowScale: Record<string, string> = {
+  "0 1px 2px 0 rgb(0 0 0 / 0.05)": "sm",
+  "0 1px 3px 0 rgb(0 0 0 / 0.1), 0 1px 2px -1px rgb(0 0 0 / 0.1)": "",
+  "0 4px 6px -1px rgb(0 0 0 / 0.1), 0 2px 4px -2px rgb(0 0 0 / 0.1)": "md",
+  "0 10px 15px -3px rgb(0 0 0 / 0.1), 0 4px 6px -4px rgb(0 0 0 / 0.1)": "lg",
+  "0 20px 25px -5px rgb(0 0 0 / 0.1), 0 8px 10px -6px rgb(0 0 0 / 0.1)": "xl",
+  "0 25px 50px -12px rgb(0 0 0 / 0.25)": "2xl",
+  "inset 0 2px 4px 0 rgb(0 0 0 / 0.05)": "inner",
+  none: "none",
+};
+
+// Tailwind v4 shifted the small shadows (shadow-sm → shadow-xs, shadow → shadow-sm)
+const defaultShadowScaleV4: Record<string, string> = {
+  ...defaultShadowScale,
+  "0 1px rgb(0 0 0 / 0.05)": "2xs",
+  "0 1px 2px 0 rgb(0 0 0 / 0.05)": "xs",
+  "0 1px 3px 0 rgb(0 0 0 / 0.1), 0 1px 2px -1px rgb(0 0 0 / 0.1)": "sm",
+};
+
+// Tailwind v4 inset shadow presets (inset-shadow-*)
+const defaultInsetShadowScale: Record<string, string> = {
+  "inset 0 1px rgb(0 0 0 / 0.05)": "2xs",
+  "inset 0 1px 1px rgb(0 0 0 / 0.05)": "xs",
+  "inset 0 2px 4px rgb(0 0 0 / 0.05)": "sm",
+};
+
+// Drop shadow presets (drop-shadow() list to Tailwind size, "" is the bare
+// `drop-shadow` class)
+const defaultDropShadowScale: Record<string, string> = {
+  "0 1px 1px rgb(0 0 0 / 0.05)": "sm",
+  "0 1px 2px rgb(0 0 0 / 0.1), 0 1px 1px rgb(0 0 0 / 0.06)": "",
+  "0 4px 3px rgb(0 0 0 / 0.07), 0 2px 2px rgb(0 0 0 / 0.06)": "md",
+  "0 10px 8px rgb(0 0 0 / 0.04), 0 4px 3px rgb(0 0 0 / 0.1)": "lg",
+  "0 20px 13px rgb(0 0 0 / 0.03), 0 8px 5px rgb(0 0 0 / 0.08)": "xl",
+  "0 25px 25px rgb(0 0 0 / 0.15)": "2xl",
+  "0 0 #0000": "none",
+};
+
+// Tailwind v4 replaced the drop shadows with single layers
+const defaultDropShadowScaleV4: Record<string, string> = {
+  "0 1px 1px rgb(0 0 0 / 0.05)": "xs",
+  "0 1px 2px rgb(0 0 0 / 0.15)": "sm",
+  "0 3px 3px rgb(0 0 0 / 0.12)": "md",
+  "0 4px 4px rgb(0 0 0 / 0.15)": "lg",
+  "0 9px 7px rgb(0 0 0 / 0.1)": "xl",
+  "0 25px 25px rgb(0 0 0 / 0.15)": "2xl",
+  "0 0 #0000": "none",
+};
+
+// Blur scale (px to Tailwind size, "" is the bare `blur` class)
+const defaultBlurScale: Record<string, string> = {
+  "0": "none",
+  "4": "sm",
+  "8": "",
+  "12": "md",
+  "16": "lg",
+  "24": "xl",
+  "40": "2xl",
+  "64": "3xl",
+};
+
+// Tailwind v4 shifted the small blurs (blur-sm → blur-xs, blur → blur-sm)
+const defaultBlurScaleV4: Record<string, string> = {
+  ...defaultBlurScale,
+  "4": "xs",
+  "8": "sm",
+};
+
+// Transition property lists (to Tailwind name, "" is the bare `transition`
+// class)
+const defaultTransitionScale: Record<string, string> = {
+  none: "none",
+  all: "all",
+  "color, background-color, border-color, text-decoration-color, fill, stroke":
+    "colors",
+  opacity: "opacity",
+  "box-shadow": "shadow",
+  transform: "transform",
+  "color, background-color, border-color, text-decoration-color, fill, stroke, opacity, box-shadow, transform, filter, backdrop-filter":
+    "",
+};
+
+// Tailwind v4 added outline colors, gradient stops and the individual
+// transform properties
+const defaultTransitionScaleV4: Record<string, string> = {
+  none: "none",
+  all: "all",
+  "color, background-color, border-color, outline-color, text-decoration-color, fill, stroke, --tw-gradient-from, --tw-gradient-via, --tw-gradient-to":
+    "colors",
+  opacity: "opacity",
+  "box-shadow": "shadow",
+  "transform, translate, scale, rotate": "transform",
+  "color, background-color, border-color, outline-color, text-decoration-color, fill, stroke, --tw-gradient-from, --tw-gradient-via, --tw-gradient-to, opacity, box-shadow, transform, translate, scale, rotate, filter, -webkit-backdrop-filter, backdrop-filter, display, content-visibility, overlay, pointer-events":
+    "",
+};
+
+// Timing functions (to Tailwind easing); transitions default to in-out
+const defaultEaseScale: Record<string, string> = {
+  linear: "linear",
+  "cubic-bezier(0.4, 0, 1, 1)": "in",
+  "cubic-bezier(0, 0, 0.2, 1)": "out",
+  "cubic-bezier(0.4, 0, 0.2, 1)": "in-out",
+};
+
+// Default font family stacks
+const defaultFontStacks: Record<string, string> = {
+  sans: "ui-sans-serif, system-ui, sans-serif",
+  serif: "ui-serif, Georgia, Cambria, 'Times New Roman', Times, serif",
+  mono: "ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, monospace",
+};
+
+// Border width scale (px to Tailwind width, "" is the bare `border` class)
+const borderWidthScale: Record<string, string> = {
+  "0": "0",
+  "1": "",
+  "2": "2",
+  "4": "4",
+  "8": "8",
+};
+
+// Convert a px/rem length to px (unitless values are only accepted for 0)
+const toPx = (value: string): number | null => {
+  const match = value.trim().match(/^(-?\d*\.?\d+)(px|rem)?$/);
+  if (!match) return null;
+  const amount = parseFloat(match[1]);
+  if (match[2] === "rem") return amount * 16;
+  if (!match[2] && amount !== 0) return null;
+  return amount;
+};
+
+// Find the scale step closest to a value, within the configured tolerance
+const matchScale = (
+  value: string,
+  scale: Record<string, string>,
+  options: ScaleOptions
+): string | null => {
+  if (!options.enabled) return null;
+  const valuePx = toPx(value);
+  if (valuePx === null) return null;
+
+  let best: string | null = null;
+  let bestDistance = Infinity;
+  for (const [stepPx, step] of Object.entries(scale)) {
+    const distance = Math.abs(Number(stepPx) - valuePx);
+    if (distance <= options.tolerance && distance < bestDistance) {
+      best = step;
+      bestDistance = distance;
+    }
+  }
+  return best;
+};
+
+type ThemeNamespace =
+  | "colors"
+  | "fonts"
+  | "fontSizes"
+  | "fontWeights"
+  | "lineHeights"
+  | "letterSpacings"
+  | "radii"
+  | "spacing"
+  | "shadows";
+
+// Theme values by namespace, keyed by name (e.g. colors["brand-700"] = "#1E40AF")
+export interface ThemeModel extends Record<
+  ThemeNamespace,
+  Record<string, string>
+> {
+  spacingBase: string | null; // Tailwind v4 `--spacing` multiplier (e.g. "0.25rem")
+  resets: ThemeNamespace[]; // namespaces cleared with `--<namespace>-*: initial`
+}
+
+// Lookup tables resolved from the defaults and the loaded theme
+export interface ThemeScales {
+  fontSizeMap: Record<string, string>;
+  fontWeightMap: Record<string, string>;
+  lineHeightMap: Record<string, string>;
+  letterSpacingMap: Record<string, string>;
+  spacingScale: Record<string, string>;
+  radiusScale: Record<string, string>;
+  palette: PaletteColor[]; // theme colors first, then the stock palette
+  fontFamilyMap: Record<string, string>; // normalized family → theme font name
+  shadowMap: Record<string, string>; // normalized shadow → theme shadow name
+  paletteNames: string[]; // stock color families (e.g. "gray" for text-gray-400)
+  colorNames: string[]; // theme color names (e.g. "brand-700")
+  fontNames: string[]; // font family names (e.g. "sans", "heading")
+  fontStacks: Record<string, string>; // font name → family list
+  shadowPresets: Record<string, string>; // shadow → preset size (e.g. "md")
+  spacingStep: number; // px per numeric spacing step (v4 accepts any multiple)
+}
+
+// Channels 0-255, alpha 0-1
+interface RGBA {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+interface PaletteColor {
+  name: string; // class suffix (e.g. "gray-400", "brand-700")
+  rgba: RGBA;
+  lab: [number, number, number]; // OKLab coordinates, used for perceptual matching
+}
+
+export interface ColorOptions {
+  match: "off" | "exact" | "nearest"; // how parsed colors are matched against the palette
+  maxDistance: number; // max OKLab distance (x100) accepted by "nearest" matching
+}
+
+// Shade order of the default Tailwind palette
+const paletteShades = [
+  "50",
+  "100",
+  "200",
+  "300",
+  "400",
+  "500",
+  "600",
+  "700",
+  "800",
+  "900",
+  "950",
+];
+
+// Default Tailwind palette (v3 hex values), one entry per shade in paletteShades order
+const defaultPalette: Record<string, string[]> = {
+  slate: [
+    "#f8fafc",
+    "#f1f5f9",
+    "#e2e8f0",
+    "#cbd5e1",
+    "#94a3b8",
+    "#64748b",
+    "#475569",
+    "#334155",
+    "#1e293b",
+    "#0f172a",
+    "#020617",
+  ],
+  gray: [
+    "#f9fafb",
+    "#f3f4f6",
+    "#e5e7eb",
+    "#d1d5db",
+    "#9ca3af",
+    "#6b7280",
+    "#4b5563",
+    "#374151",
+    "#1f2937",
+    "#111827",
+    "#030712",
+  ],
+  zinc: [
+    "#fafafa",
+    "#f4f4f5",
+    "#e4e4e7",
+    "#d4d4d8",
+    "#a1a1aa",
+    "#71717a",
+    "#52525b",
+    "#3f3f46",
+    "#27272a",
+    "#18181b",
+    "#09090b",
+  ],
+  neutral: [
+    "#fafafa",
+    "#f5f5f5",
+    "#e5e5e5",
+    "#d4d4d4",
+    "#a3a3a3",
+    "#737373",
+    "#525252",
+    "#404040",
+    "#262626",
+    "#171717",
+    "#0a0a0a",
+  ],
+  stone: [
+    "#fafaf9",
+    "#f5f5f4",
+    "#e7e5e4",
+    "#d6d3d1",
+    "#a8a29e",
+    "#78716c",
+    "#57534e",
+    "#44403c",
+    "#292524",
+    "#1c1917",
+    "#0c0a09",
+  ],
+  red: [
+    "#fef2f2",
+    "#fee2e2",
+    "#fecaca",
+    "#fca5a5",
+    "#f87171",
+    "#ef4444",
+    "#dc2626",
+    "#b91c1c",
+    "#991b1b",
+    "#7f1d1d",
+    "#450a0a",
+  ],
+  orange: [
+    "#fff7ed",
+    "#ffedd5",
+    "#fed7aa",
+    "#fdba74",
+    "#fb923c",
+    "#f97316",
+    "#ea580c",
+    "#c2410c",
+    "#9a3412",
+    "#7c2d12",
+    "#431407",
+  ],
+  amber: [
+    "#fffbeb",
+    "#fef3c7",
+    "#fde68a",
+    "#fcd34d",
+    "#fbbf24",
+    "#f59e0b",
+    "#d97706",
+    "#b45309",
+    "#92400e",
+    "#78350f",
+    "#451a03",
+  ],
+  yellow: [
+    "#fefce8",
+    "#fef9c3",
+    "#fef08a",
+    "#fde047",
+    "#facc15",
+    "#eab308",
+    "#ca8a04",
+    "#a16207",
+    "#854d0e",
+    "#713f12",
+    "#422006",
+  ],
+  lime: [
+    "#f7fee7",
+    "#ecfccb",
+    "#d9f99d",
+    "#bef264",
+    "#a3e635",
+    "#84cc16",
+    "#65a30d",
+    "#4d7c0f",
+    "#3f6212",
+    "#365314",
+    "#1a2e05",
+  ],
+  green: [
+    "#f0fdf4",
+    "#dcfce7",
+    "#bbf7d0",
+    "#86efac",
+    "#4ade80",
+    "#22c55e",
+    "#16a34a",
+    "#15803d",
+    "#166534",
+    "#14532d",
+    "#052e16",
+  ],
+  emerald: [
+    "#ecfdf5",
+    "#d1fae5",
+    "#a7f3d0",
+    "#6ee7b7",
+    "#34d399",
+    "#10b981",
+    "#059669",
+    "#047857",
+    "#065f46",
+    "#064e3b",
+    "#022c22",
+  ],
+  teal: [
+    "#f0fdfa",
+    "#ccfbf1",
+    "#99f6e4",
+    "#5eead4",
+    "#2dd4bf",
+    "#14b8a6",
+    "#0d9488",
+    "#0f766e",
+    "#115e59",
+    "#134e4a",
+    "#042f2e",
+  ],
+  cyan: [
+    "#ecfeff",
+    "#cffafe",
+    "#a5f3fc",
+    "#67e8f9",
+    "#22d3ee",
+    "#06b6d4",
+    "#0891b2",
+    "#0e7490",
+    "#155e75",
+    "#164e63",
+    "#083344",
+  ],
+  sky: [
+    "#f0f9ff",
+    "#e0f2fe",
+    "#bae6fd",
+    "#7dd3fc",
+    "#38bdf8",
+    "#0ea5e9",
+    "#0284c7",
+    "#0369a1",
+    "#075985",
+    "#0c4a6e",
+    "#082f49",
+  ],
+  blue: [
+    "#eff6ff",
+    "#dbeafe",
+    "#bfdbfe",
+    "#93c5fd",
+    "#60a5fa",
+    "#3b82f6",
+    "#2563eb",
+    "#1d4ed8",
+    "#1e40af",
+    "#1e3a8a",
+    "#172554",
+  ],
+  indigo: [
+    "#eef2ff",
+    "#e0e7ff",
+    "#c7d2fe",
+    "#a5b4fc",
+    "#818cf8",
+    "#6366f1",
+    "#4f46e5",
+    "#4338ca",
+    "#3730a3",
+    "#312e81",
+    "#1e1b4b",
+  ],
+  violet: [
+    "#f5f3ff",
+    "#ede9fe",
+    "#ddd6fe",
+    "#c4b5fd",
+    "#a78bfa",
+    "#8b5cf6",
+    "#7c3aed",
+    "#6d28d9",
+    "#5b21b6",
+    "#4c1d95",
+    "#2e1065",
+  ],
+  purple: [
+    "#faf5ff",
+    "#f3e8ff",
+    "#e9d5ff",
+    "#d8b4fe",
+    "#c084fc",
+    "#a855f7",
+    "#9333ea",
+    "#7e22ce",
+    "#6b21a8",
+    "#581c87",
+    "#3b0764",
+  ],
+  fuchsia: [
+    "#fdf4ff",
+    "#fae8ff",
+    "#f5d0fe",
+    "#f0abfc",
+    "#e879f9",
+    "#d946ef",
+    "#c026d3",
+    "#a21caf",
+    "#86198f",
+    "#701a75",
+    "#4a044e",
+  ],
+  pink: [
+    "#fdf2f8",
+    "#fce7f3",
+    "#fbcfe8",
+    "#f9a8d4",
+    "#f472b6",
+    "#ec4899",
+    "#db2777",
+    "#be185d",
+    "#9d174d",
+    "#831843",
+    "#500724",
+  ],
+  rose: [
+    "#fff1f2",
+    "#ffe4e6",
+    "#fecdd3",
+    "#fda4af",
+    "#fb7185",
+    "#f43f5e",
+    "#e11d48",
+    "#be123c",
+    "#9f1239",
+    "#881337",
+    "#4c0519",
+  ],
+};
+
+// CSS named colors
+const namedColors: Record<string, string> = {
+  aliceblue: "#f0f8ff",
+  antiquewhite: "#faebd7",
+  aqua: "#00ffff",
+  aquamarine: "#7fffd4",
+  azure: "#f0ffff",
+  beige: "#f5f5dc",
+  bisque: "#ffe4c4",
+  black: "#000000",
+  blanchedalmond: "#ffebcd",
+  blue: "#0000ff",
+  blueviolet: "#8a2be2",
+  brown: "#a52a2a",
+  burlywood: "#deb887",
+  cadetblue: "#5f9ea0",
+  chartreuse: "#7fff00",
+  chocolate: "#d2691e",
+  coral: "#ff7f50",
+  cornflowerblue: "#6495ed",
+  cornsilk: "#fff8dc",
+  crimson: "#dc143c",
+  cyan: "#00ffff",
+  darkblue: "#00008b",
+  darkcyan: "#008b8b",
+  darkgoldenrod: "#b8860b",
+  darkgray: "#a9a9a9",
+  darkgreen: "#006400",
+  darkgrey: "#a9a9a9",
+  darkkhaki: "#bdb76b",
+  darkmagenta: "#8b008b",
+  darkolivegreen: "#556b2f",
+  darkorange: "#ff8c00",
+  darkorchid: "#9932cc",
+  darkred: "#8b0000",
+  darksalmon: "#e9967a",
+  darkseagreen: "#8fbc8f",
+  darkslateblue: "#483d8b",
+  darkslategray: "#2f4f4f",
+  darkslategrey: "#2f4f4f",
+  darkturquoise: "#00ced1",
+  darkviolet: "#9400d3",
+  deeppink: "#ff1493",
+  deepskyblue: "#00bfff",
+  dimgray: "#696969",
+  dimgrey: "#696969",
+  dodgerblue: "#1e90ff",
+  firebrick: "#b22222",
+  floralwhite: "#fffaf0",
+  forestgreen: "#228b22",
+  fuchsia: "#ff00ff",
+  gainsboro: "#dcdcdc",
+  ghostwhite: "#f8f8ff",
+  gold: "#ffd700",
+  goldenrod: "#daa520",
+  gray: "#808080",
+  green: "#008000",
+  greenyellow: "#adff2f",
+  grey: "#808080",
+  honeydew: "#f0fff0",
+  hotpink: "#ff69b4",
+  indianred: "#cd5c5c",
+  indigo: "#4b0082",
+  ivory: "#fffff0",
+  khaki: "#f0e68c",
+  lavender: "#e6e6fa",
+  lavenderblush: "#fff0f5",
+  lawngreen: "#7cfc00",
+  lemonchiffon: "#fffacd",
+  lightblue: "#add8e6",
+  lightcoral: "#f08080",
+  lightcyan: "#e0ffff",
+  lightgoldenrodyellow: "#fafad2",
+  lightgray: "#d3d3d3",
+  lightgreen: "#90ee90",
+  lightgrey: "#d3d3d3",
+  lightpink: "#ffb6c1",
+  lightsalmon: "#ffa07a",
+  lightseagreen: "#20b2aa",
+  lightskyblue: "#87cefa",
+  lightslategray: "#778899",
+  lightslategrey: "#778899",
+  lightsteelblue: "#b0c4de",
+  lightyellow: "#ffffe0",
+  lime: "#00ff00",
+  limegreen: "#32cd32",
+  linen: "#faf0e6",
+  magenta: "#ff00ff",
+  maroon: "#800000",
+  mediumaquamarine: "#66cdaa",
+  mediumblue: "#0000cd",
+  mediumorchid: "#ba55d3",
+  mediumpurple: "#9370db",
+  mediumseagreen: "#3cb371",
+  mediumslateblue: "#7b68ee",
+  mediumspringgreen: "#00fa9a",
+  mediumturquoise: "#48d1cc",
+  mediumvioletred: "#c71585",
+  midnightblue: "#191970",
+  mintcream: "#f5fffa",
+  mistyrose: "#ffe4e1",
+  moccasin: "#ffe4b5",
+  navajowhite: "#ffdead",
+  navy: "#000080",
+  oldlace: "#fdf5e6",
+  olive: "#808000",
+  olivedrab: "#6b8e23",
+  orange: "#ffa500",
+  orangered: "#ff4500",
+  orchid: "#da70d6",
+  palegoldenrod: "#eee8aa",
+  palegreen: "#98fb98",
+  paleturquoise: "#afeeee",
+  palevioletred: "#db7093",
+  papayawhip: "#ffefd5",
+  peachpuff: "#ffdab9",
+  peru: "#cd853f",
+  pink: "#ffc0cb",
+  plum: "#dda0dd",
+  powderblue: "#b0e0e6",
+  purple: "#800080",
+  rebeccapurple: "#663399",
+  red: "#ff0000",
+  rosybrown: "#bc8f8f",
+  royalblue: "#4169e1",
+  saddlebrown: "#8b4513",
+  salmon: "#fa8072",
+  sandybrown: "#f4a460",
+  seagreen: "#2e8b57",
+  seashell: "#fff5ee",
+  sienna: "#a0522d",
+  silver: "#c0c0c0",
+  skyblue: "#87ceeb",
+  slateblue: "#6a5acd",
+  slategray: "#708090",
+  slategrey: "#708090",
+  snow: "#fffafa",
+  springgreen: "#00ff7f",
+  steelblue: "#4682b4",
+  tan: "#d2b48c",
+  teal: "#008080",
+  thistle: "#d8bfd8",
+  tomato: "#ff6347",
+  turquoise: "#40e0d0",
+  violet: "#ee82ee",
+  wheat: "#f5deb3",
+  white: "#ffffff",
+  whitesmoke: "#f5f5f5",
+  yellow: "#ffff00",
+  yellowgreen: "#9acd32",
+};
+
+// Theme variable prefixes, most specific first (--font-weight-* before --font-*)
+const themeNamespaces: [string, ThemeNamespace][] = [
+  ["--color-", "colors"],
+  ["--font-weight-", "fontWeights"],
+  ["--font-", "fonts"],
+  ["--text-", "fontSizes"],
+  ["--leading-", "lineHeights"],
+  ["--tracking-", "letterSpacings"],
+  ["--radius-", "radii"],
+  ["--spacing-", "spacing"],
+  ["--shadow-", "shadows"],
+];
+
+export const emptyTheme = (): ThemeModel => ({
+  colors: {},
+  fonts: {},
+  fontSizes: {},
+  fontWeights: {},
+  lineHeights: {},
+  letterSpacings: {},
+  radii: {},
+  spacing: {},
+  shadows: {},
+  spacingBase: null,
+  resets: [],
+});
+
+// Parse the `@theme { ... }` blocks of a Tailwind v4 stylesheet into a theme model
+export const parseTheme = (css: string): ThemeModel => {
+  const theme = emptyTheme();
+  const source = css.replace(/\/\*[\s\S]*?\*\//g, "");
+  const declarations: Record<string, string> = {};
+
+  const blockRegex = /@theme\b[^{;]*\{/g;
+  while (blockRegex.exec(source) !== null) {
+    let depth = 1;
+    let body = "";
+    let i = blockRegex.lastIndex;
+    for (; i < source.length && depth > 0; i++) {
+      const ch = source[i];
+      if (ch === "{") {
+        // Drop the prelude of nested blocks such as @keyframes
+        if (depth === 1) body = body.slice(0, body.lastIndexOf(";") + 1);
+        depth++;
+      } else if (ch === "}") {
+        depth--;
+      } else if (depth === 1) {
+        body += ch;
+      }
+    }
+    blockRegex.lastIndex = i;
+
+    for (const declaration of body.split(";")) {
+      const match = declaration.match(/^\s*(--[^:\s]+)\s*:\s*([\s\S]+?)\s*$/);
+      if (match) declarations[match[1]] = match[2];
+    }
+  }
+
+  // Resolve references to other theme variables (e.g. --color-primary: var(--color-blue-700))
+  const resolve = (value: string, depth = 0): string =>
+    depth > 10
+      ? value
+      : value.replace(
+          /var\((--[^,)\s]+)\s*(?:,\s*([^)]+))?\)/g,
+          (match, name, fallback) =>
+            declarations[name] !== undefined
+              ? resolve(declarations[name], depth + 1)
+              : (fallback?.trim() ?? match)
+        );
+
+  for (const [name, rawValue] of Object.entries(declarations)) {
+    const value = resolve(rawValue);
+
+    if (name === "--spacing") {
+      theme.spacingBase = value;
+      continue;
+    }
+    if (name === "--*" && value === "initial") {
+      theme.resets = themeNamespaces.map(([, namespace]) => namespace);
+      continue;
+    }
+
+    const entry = themeNamespaces.find(([prefix]) => name.startsWith(prefix));
+    if (!entry) continue;
+    const [prefix, namespace] = entry;
+    const key = name.slice(prefix.length);
+
+    if (key === "*") {
+      if (value === "initial" && !theme.resets.includes(namespace)) {
+        theme.resets.push(namespace);
+      }
+      continue;
+    }
+    // Skip sub-properties such as --text-body--line-height
+    if (key.includes("--")) continue;
+
+    theme[namespace][key] = value;
+  }
+
+  return theme;
+};
+
+// Write a theme model back as an @theme block (resets first, so the entries
+// that follow them stay defined)
+export const themeToCSS = (theme: ThemeModel): string => {
+  const lines = [
+    ...themeNamespaces
+      .filter(([, namespace]) => theme.resets.includes(namespace))
+      .map(([prefix]) => `  ${prefix}*: initial;`),
+    ...(theme.spacingBase ? [`  --spacing: ${theme.spacingBase};`] : []),
+    ...themeNamespaces.flatMap(([prefix, namespace]) =>
+      Object.entries(theme[namespace]).map(
+        ([key, value]) => `  ${prefix}${key}: ${value};`
+      )
+    ),
+  ];
+  return lines.length > 0 ? `@theme {\n${lines.join("\n")}\n}` : "";
+};
+
+// sRGB channel (0-255) to linear light
+const toLinear = (channel: number) => {
+  const c = channel / 255;
+  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+};
+
+// Linear light to sRGB channel (0-255), clamped
+const fromLinear = (value: number) => {
+  const c =
+    value <= 0.0031308
+      ? 12.92 * value
+      : 1.055 * Math.pow(value, 1 / 2.4) - 0.055;
+  return Math.round(Math.min(1, Math.max(0, c)) * 255);
+};
+
+const rgbToOklab = ({ r, g, b }: RGBA): [number, number, number] => {
+  const lr = toLinear(r);
+  const lg = toLinear(g);
+  const lb = toLinear(b);
+  const l = Math.cbrt(
+    0.4122214708 * lr + 0.5363325363 * lg + 0.0514459929 * lb
+  );
+  const m = Math.cbrt(
+    0.2119034982 * lr + 0.6806995451 * lg + 0.1073969566 * lb
+  );
+  const s = Math.cbrt(
+    0.0883024619 * lr + 0.2817188376 * lg + 0.6299787005 * lb
+  );
+  return [
+    0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s,
+    1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s,
+    0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s,
+  ];
+};
+
+const oklabToRgb = (L: number, A: number, B: number, alpha: number): RGBA => {
+  const l = Math.pow(L + 0.3963377774 * A + 0.2158037573 * B, 3);
+  const m = Math.pow(L - 0.1055613458 * A - 0.0638541728 * B, 3);
+  const s = Math.pow(L - 0.0894841775 * A - 1.291485548 * B, 3);
+  return {
+    r: fromLinear(4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s),
+    g: fromLinear(-1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s),
+    b: fromLinear(-0.0041960863 * l - 0.7034186147 * m + 1.707614701 * s),
+    a: alpha,
+  };
+};
+
+const hslToRgb = (h: number, s: number, l: number, alpha: number): RGBA => {
+  const hue = ((h % 360) + 360) % 360;
+  const k = (n: number) => (n + hue / 30) % 12;
+  const a = s * Math.min(l, 1 - l);
+  const f = (n: number) =>
+    l - a * Math.max(-1, Math.min(k(n) - 3, 9 - k(n), 1));
+  return {
+    r: Math.round(f(0) * 255),
+    g: Math.round(f(8) * 255),
+    b: Math.round(f(4) * 255),
+    a: alpha,
+  };
+};
+
+// Parse a number or percentage, scaling percentages to `max`
+const parseChannel = (value: string, max: number) =>
+  value.endsWith("%") ? (parseFloat(value) / 100) * max : parseFloat(value);
+
+// Parse hex, rgb(a), hsl(a), oklch/oklab and named colors; null for anything else
+export const parseColor = (value: string): RGBA | null => {
+  const color = value.trim().toLowerCase();
+  if (color === "transparent") return { r: 0, g: 0, b: 0, a: 0 };
+  if (namedColors[color]) return parseColor(namedColors[color]);
+
+  const hex = color.match(/^#([0-9a-f]{3,8})$/);
+  if (hex) {
+    let digits = hex[1];
+    if (digits.length === 3 || digits.length === 4) {
+      digits = digits
+        .split("")
+        .map((d) => d + d)
+        .join("");
+    }
+    if (digits.length !== 6 && digits.length !== 8) return null;
+    return {
+      r: parseInt(digits.slice(0, 2), 16),
+      g: parseInt(digits.slice(2, 4), 16),
+      b: parseInt(digits.slice(4, 6), 16),
+      a: digits.length === 8 ? parseInt(digits.slice(6, 8), 16) / 255 : 1,
+    };
+  }
+
+  const fn = color.match(/^(rgba?|hsla?|oklch|oklab)\(\s*([^()]*)\)$/);
+  if (!fn) return null;
+
+  // Accept both the legacy "r, g, b, a" and the modern "r g b / a" syntax
+  const args = fn[2].split(/\s*[,/]\s*|\s+/).filter(Boolean);
+  if (args.length < 3 || args.length > 4) return null;
+  const alpha = args[3] === undefined ? 1 : parseChannel(args[3], 1);
+  if (args.some((arg) => Number.isNaN(parseFloat(arg)))) return null;
+
+  switch (fn[1]) {
+    case "rgb":
+    case "rgba":
+      return {
+        r: Math.round(Math.min(255, Math.max(0, parseChannel(args[0], 255)))),
+        g: Math.round(Math.min(255, Math.max(0, parseChannel(args[1], 255)))),
+        b: Math.round(Math.min(255, Math.max(0, parseChannel(args[2], 255)))),
+        a: alpha,
+      };
+    case "hsl":
+    case "hsla":
+      return hslToRgb(
+        parseFloat(args[0]),
+        parseChannel(args[1], 1),
+        parseChannel(args[2], 1),
+        alpha
+      );
+    case "oklab":
+      return oklabToRgb(
+        parseChannel(args[0], 1),
+        parseChannel(args[1], 0.4),
+        parseChannel(args[2], 0.4),
+        alpha
+      );
+    default: {
+      const chroma = parseChannel(args[1], 0.4);
+      const hue = (parseFloat(args[2]) * Math.PI) / 180;
+      return oklabToRgb(
+        parseChannel(args[0], 1),
+        chroma * Math.cos(hue),
+        chroma * Math.sin(hue),
+        alpha
+      );
+    }
+  }
+};
+
+// Format a color as #rrggbb, ignoring alpha
+const toHex = ({ r, g, b }: RGBA) =>
+  "#" + [r, g, b].map((c) => c.toString(16).padStart(2, "0")).join("");
+
+// Tailwind opacity modifier for an alpha value ("" when fully opaque)
+const alphaModifier = (alpha: number) => {
+  const percent = Math.round(alpha * 100);
+  if (percent >= 100) return "";
+  // The default opacity scale has steps of 5, anything else is arbitrary
+  return percent % 5 === 0 ? `/${percent}` : `/[${percent / 100}]`;
+};
+
+const toPaletteColor = (name: string, value: string): PaletteColor | null => {
+  const rgba = parseColor(value);
+  // Translucent palette entries can't be combined with an opacity modifier
+  if (!rgba || rgba.a < 1) return null;
+  return { name, rgba, lab: rgbToOklab(rgba) };
+};
+
+// Find the palette color for a parsed color (exact RGB match or nearest in OKLab)
+export const matchColor = (
+  rgba: RGBA,
+  palette: PaletteColor[],
+  options: ColorOptions
+): string | null => {
+  if (options.match === "off") return null;
+
+  const exact = palette.find(
+    (entry) =>
+      entry.rgba.r === rgba.r &&
+      entry.rgba.g === rgba.g &&
+      entry.rgba.b === rgba.b
+  );
+  if (exact || options.match === "exact") return exact?.name ?? null;
+
+  const [L, A, B] = rgbToOklab(rgba);
+  let best: string | null = null;
+  let bestDistance = Infinity;
+  for (const entry of palette) {
+    const distance =
+      Math.hypot(entry.lab[0] - L, entry.lab[1] - A, entry.lab[2] - B) * 100;
+    if (distance <= options.maxDistance && distance < bestDistance) {
+      best = entry.name;
+      bestDistance = distance;
+    }
+  }
+  return best;
+};
+
+// Normalize a font-family list to its primary family ("'Inter', sans-serif" → "inter")
+const normalizeFontFamily = (value: string) =>
+  value
+    .split(",")[0]
+    .trim()
+    .replace(/^["']|["']$/g, "")
+    .toLowerCase();
+
+// Normalize whitespace so shadows compare equal regardless of formatting
+const normalizeShadow = (value: string) =>
+  value
+    .trim()
+    .replace(/\s+/g, " ")
+    .replace(/\s*,\s*/g, ", ");
+
+// Comparable form of a shadow list: lengths in px, a missing blur/spread as
+// 0 and colors as RGBA ("0px 4px 6px -1px rgba(0, 0, 0, 0.10)" and
+// "0 4px 6px -1px rgb(0 0 0 / 0.1)" are the same shadow)
+const shadowKey = (value: string) =>
+  splitCommas(value.toLowerCase())
+    .map((layer) => {
+      const lengths: string[] = [];
+      const rest: string[] = [];
+      for (const token of splitValues(layer)) {
+        const px = toPx(token);
+        const rgba = parseColor(token);
+        if (px !== null) {
+          lengths.push(String(px));
+        } else if (rgba) {
+          const { r, g, b, a } = rgba;
+          rest.push(`rgba(${r},${g},${b},${Math.round(a * 100) / 100})`);
+        } else {
+          rest.push(token);
+        }
+      }
+      while (lengths.length > 0 && lengths.length < 4) lengths.push("0");
+      return [...lengths, ...rest.sort()].join(" ");
+    })
+    .join(", ");
+
+// Build the lookup tables used by toTailwind and getClassPropertyType
+export const resolveScales = (
+  theme: ThemeModel | null,
+  target: TailwindTarget = "v3"
+): ThemeScales => {
+  const t = theme ?? emptyTheme();
+  const isReset = (namespace: ThemeNamespace) => t.resets.includes(namespace);
+
+  // Theme entries override defaults; among theme entries the first declared
+  // name wins, so aliases like --color-primary don't shadow the palette name
+  const themeEntries = (namespace: ThemeNamespace) =>
+    Object.entries(t[namespace]).reverse();
+
+  // Scales keyed by px (font sizes, spacing, radii)
+  const byPx = (
+    defaults: Record<string, string>,
+    namespace: ThemeNamespace
+  ) => {
+    const map = isReset(namespace) ? {} : { ...defaults };
+    for (const [name, value] of themeEntries(namespace)) {
+      const valuePx = toPx(value);
+      if (valuePx !== null) map[String(valuePx)] = name;
+    }
+    return map;
+  };
+
+  // Scales keyed by the raw CSS value (weights, line heights, letter spacing)
+  const byValue = (
+    defaults: Record<string, string>,
+    namespace: ThemeNamespace,
+    normalize: (value: string) => string = (value) => value.trim()
+  ) => {
+    const map = isReset(namespace) ? {} : { ...defaults };
+    for (const [name, value] of themeEntries(namespace)) {
+      map[normalize(value)] = name;
+    }
+    return map;
+  };
+
+  // A custom --spacing multiplier rescales every numeric spacing step
+  let spacingDefaults = defaultSpacingScale;
+  const basePx = t.spacingBase ? toPx(t.spacingBase) : null;
+  if (basePx !== null) {
+    spacingDefaults = {};
+    for (const step of Object.values(defaultSpacingScale)) {
+      const stepPx = step === "px" ? 1 : Number(step) * basePx;
+      spacingDefaults[String(stepPx)] = step;
+    }
+  }
+
+  return {
+    fontSizeMap: byPx(defaultFontSizeMap, "fontSizes"),
+    fontWeightMap: byValue(defaultFontWeightMap, "fontWeights"),
+    lineHeightMap: byValue(defaultLineHeightMap, "lineHeights"),
+    letterSpacingMap: byValue(defaultLetterSpacingMap, "letterSpacings"),
+    spacingScale: byPx(spacingDefaults, "spacing"),
+    radiusScale: byPx(
+      target === "v4" ? defaultRadiusScaleV4 : defaultRadiusScale,
+      "radii"
+    ),
+    palette: [
+      ...Object.entries(t.colors).map(([name, value]) =>
+        toPaletteColor(name, value)
+      ),
+      ...(isReset("colors")
+        ? []
+        : [
+            toPaletteColor("white", "#ffffff"),
+            toPaletteColor("black", "#000000"),
+            ...Object.entries(defaultPalette).flatMap(([family, shades]) =>
+              shades.map((value, i) =>
+                toPaletteColor(`${family}-${paletteShades[i]}`, value)
+              )
+            ),
+          ]),
+    ].filter((entry): entry is PaletteColor => entry !== null),
+    fontFamilyMap: byValue({}, "fonts", normalizeFontFamily),
+    shadowMap: byValue({}, "shadows", normalizeShadow),
+    paletteNames: isReset("colors") ? [] : Object.keys(defaultPalette),
+    colorNames: Object.keys(t.colors),
+    fontNames: [
+      ...(isReset("fonts") ? [] : ["sans", "serif", "mono"]),
+      ...Object.keys(t.fonts),
+    ],
+    fontStacks: {
+      ...(isReset("fonts") ? {} : defaultFontStacks),
+      ...t.fonts,
+    },
+    shadowPresets: isReset("shadows")
+      ? {}
+      : target === "v4"
+        ? defaultShadowScaleV4
+        : defaultShadowScale,
+    spacingStep: basePx ?? 4,
+  };
+};
+
+interface CSSToken {
+  type: "text" | "comment" | "{" | "}" | ";";
+  value: string; // raw text (comment text without the /* */ delimiters)
+  start: number; // offset of the first character in the source
+  end: number; // offset after the last character
+}
+
+export interface CSSDeclaration {
+  property: string; // lowercased property name (e.g. "-webkit-line-clamp")
+  value: string; // value with whitespace collapsed and !important removed
+  important: boolean;
+  selector: string | null; // innermost enclosing rule selector, if any
+  start: number; // offset of the property name in the source
+  end: number; // offset after the last character of the value
+  line: number; // 1-based line of the property name
+  block: number; // index of the layer block the declaration belongs to
+  layer: string | null; // layer name from the preceding comment or selector
+}
+
+// Text the parser skipped (no "property: value" pair)
+interface UnparsedFragment {
+  text: string;
+  start: number;
+  end: number;
+  line: number;
+}
+
+interface ParsedCSS {
+  declarations: CSSDeclaration[];
+  unparsed: UnparsedFragment[];
+}
+
+interface CSSBlock {
+  name: string;
+  declarations: CSSDeclaration[];
+}
+
+// Section comments Figma emits inside a single layer's CSS, which must not
+// start a new layer block
+const figmaSectionComments = [
+  "auto layout",
+  "inside auto layout",
+  "typography",
+  "identical to box height",
+];
+
+// Split CSS into comments, braces, semicolons and the text between them.
+// Strings and parenthesized groups are kept intact, so `;` inside url() or
+// quotes doesn't end a declaration
+const tokenizeCSS = (css: string): CSSToken[] => {
+  const tokens: CSSToken[] = [];
+  let textStart = -1;
+  let depth = 0;
+
+  const flushText = (end: number) => {
+    if (textStart === -1) return;
+    tokens.push({
+      type: "text",
+      value: css.slice(textStart, end),
+      start: textStart,
+      end,
+    });
+    textStart = -1;
+  };
+
+  for (let i = 0; i < css.length;) {
+    const ch = css[i];
+
+    if (ch === "/" && css[i + 1] === "*") {
+      flushText(i);
+      const close = css.indexOf("*/", i + 2);
+      const end = close === -1 ? css.length : close + 2;
+      tokens.push({
+        type: "comment",
+        value: css.slice(i + 2, close === -1 ? css.length : close).trim(),
+        start: i,
+        end,
+      });
+      i = end;
+      continue;
+    }
+
+    if (ch === '"' || ch === "'") {
+      if (textStart === -1) textStart = i;
+      let j = i + 1;
+      while (j < css.length && css[j] !== ch) j += css[j] === "\\" ? 2 : 1;
+      i = j + 1;
+      continue;
+    }
+
+    if (ch === "(") depth++;
+    if (ch === ")") depth = Math.max(0, depth - 1);
+
+    if (depth === 0 && (ch === "{" || ch === "}" || ch === ";")) {
+      flushText(i);
+      tokens.push({ type: ch, value: ch, start: i, end: i + 1 });
+      i++;
+      continue;
+    }
+
+    if (textStart === -1) textStart = i;
+    i++;
+  }
+  flushText(css.length);
+
+  return tokens;
+};
+
+// Parse declarations from a list of declarations or full rules (".frame { ... }"),
+// keeping any text that isn't a declaration
+const parseStylesheet = (css: string): ParsedCSS => {
+  const declarations: CSSDeclaration[] = [];
+  const unparsed: UnparsedFragment[] = [];
+  const selectors: string[] = [];
+  let pending: CSSToken[] = [];
+
+  // Layer blocks start at a top-level comment or rule, unless the current
+  // block has no declarations yet (e.g. "/* Frame */ .frame { ... }")
+  let block = 0;
+  let layer: string | null = null;
+  let blockHasDeclarations = false;
+
+  const startBlock = (name: string) => {
+    if (blockHasDeclarations) {
+      block++;
+      layer = name;
+      blockHasDeclarations = false;
+    } else if (layer === null) {
+      layer = name;
+    }
+  };
+
+  const lineAt = (offset: number) => css.slice(0, offset).split("\n").length;
+
+  const takePending = () => {
+    const parts = pending;
+    pending = [];
+    return parts;
+  };
+
+  const flushDeclaration = () => {
+    const parts = takePending();
+    if (parts.length === 0) return;
+
+    const text = parts.map((part) => part.value).join(" ");
+    const first = parts[0];
+    const last = parts[parts.length - 1];
+    const start =
+      first.start + (first.value.length - first.value.trimStart().length);
+    const end = last.end - (last.value.length - last.value.trimEnd().length);
+    if (!text.trim()) return;
+
+    const skip = () =>
+      unparsed.push({
+        text: text.replace(/\s+/g, " ").trim(),
+        start,
+        end,
+        line: lineAt(start),
+      });
+
+    const match = text.match(/^\s*(-{0,2}[a-zA-Z][\w-]*)\s*:([\s\S]*)$/);
+    if (!match) return skip();
+
+    let value = match[2].replace(/\s+/g, " ").trim();
+    const important = /!\s*important$/i.test(value);
+    if (important) value = value.replace(/\s*!\s*important$/i, "");
+    if (!value) return skip();
+
+    declarations.push({
+      property: match[1].toLowerCase(),
+      value,
+      important,
+      selector: selectors[selectors.length - 1] ?? null,
+      start,
+      end,
+      line: lineAt(start),
+      block,
+      layer,
+    });
+    blockHasDeclarations = true;
+  };
+
+  for (const token of tokenizeCSS(css)) {
+    switch (token.type) {
+      case "text":
+        pending.push(token);
+        break;
+      case "comment":
+        if (
+          selectors.length === 0 &&
+          token.value &&
+          !figmaSectionComments.includes(token.value.toLowerCase())
+        ) {
+          startBlock(token.value);
+        }
+        break;
+      case ";":
+        flushDeclaration();
+        break;
+      case "{": {
+        const selector = takePending()
+          .map((part) => part.value)
+          .join(" ")
+          .replace(/\s+/g, " ")
+          .trim();
+        if (selectors.length === 0) startBlock(selector);
+        selectors.push(selector);
+        break;
+      }
+      case "}":
+        flushDeclaration();
+        selectors.pop();
+        break;
+    }
+  }
+  flushDeclaration();
+
+  return { declarations, unparsed };
+};
+
+export const parseDeclarations = (css: string): CSSDeclaration[] =>
+  parseStylesheet(css).declarations;
+
+// Split a value at top-level whitespace, keeping parenthesized groups together
+// ("1px rgba(0, 0, 0, 0.1)" → ["1px", "rgba(0, 0, 0, 0.1)"])
+const splitValues = (value: string): string[] => {
+  const parts: string[] = [];
+  let current = "";
+  let depth = 0;
+  for (const ch of value.trim()) {
+    if (ch === "(") depth++;
+    if (ch === ")") depth = Math.max(0, depth - 1);
+    if (depth === 0 && /\s/.test(ch)) {
+      if (current) parts.push(current);
+      current = "";
+    } else {
+      current += ch;
+    }
+  }
+  if (current) parts.push(current);
+  return parts;
+};
+
+// Expand a 1-4 value box shorthand to [top, right, bottom, left]
+// (or [top-left, top-right, bottom-right, bottom-left] for border-radius)
+const expandBox = (value: string): [string, string, string, string] | null => {
+  const [a, b, c, d] = splitValues(value);
+  switch (splitValues(value).length) {
+    case 1:
+      return [a, a, a, a];
+    case 2:
+      return [a, b, a, b];
+    case 3:
+      return [a, b, c, b];
+    case 4:
+      return [a, b, c, d];
+    default:
+      return null;
+  }
+};
+
+// Split a flex shorthand into [grow, shrink, basis] the way CSS reads it
+// ("1" → 1 1 0%, "100px" → 1 1 100px, "1 100px" → 1 1 100px, "none" →
+// 0 0 auto; null for global keywords and invalid values)
+const parseFlex = (value: string): [string, string, string] | null => {
+  const keywords: Record<string, [string, string, string]> = {
+    none: ["0", "0", "auto"],
+    auto: ["1", "1", "auto"],
+    initial: ["0", "1", "auto"],
+  };
+  const flex = value.trim();
+  if (keywords[flex]) return keywords[flex];
+  const isNumber = (part: string) => /^\d*\.?\d+$/.test(part);
+  const isBasis = (part: string) =>
+    /^-?\d*\.?\d+([a-z]+|%)$|^(calc|min|max|clamp|var)\(/.test(part) ||
+    ["auto", "content", "fit-content", "max-content", "min-content"].includes(
+      part
+    );
+  const parts = splitValues(flex);
+  switch (parts.length) {
+    case 1:
+      if (isNumber(parts[0])) return [parts[0], "1", "0%"];
+      return isBasis(parts[0]) ? ["1", "1", parts[0]] : null;
+    case 2:
+      if (!isNumber(parts[0])) return null;
+      if (isNumber(parts[1])) return [parts[0], parts[1], "0%"];
+      return isBasis(parts[1]) ? [parts[0], "1", parts[1]] : null;
+    case 3:
+      // A unitless zero is a valid basis after both factors (Figma's "1 0 0")
+      return isNumber(parts[0]) &&
+        isNumber(parts[1]) &&
+        (isBasis(parts[2]) || parts[2] === "0")
+        ? [parts[0], parts[1], parts[2]]
+        : null;
+    default:
+      return null;
+  }
+};
+
+// Split a border shorthand into width, style and color, in any order
+// ("1px solid red", "none", "dashed var(--c)"); a leading variable is read as
+// the width
+const parseBorder = (value: string) => {
+  const border: Record<"width" | "style" | "color", string | null> = {
+    width: null,
+    style: null,
+    color: null,
+  };
+  for (const [i, token] of splitValues(value).entries()) {
+    if (
+      /^(none|hidden|dotted|dashed|solid|double|groove|ridge|inset|outset)$/.test(
+        token
+      )
+    ) {
+      border.style = token;
+    } else if (
+      /^(-?\d*\.?\d+([a-z]+|%)?|thin|medium|thick)$|^(calc|min|max|clamp)\(/.test(
+        token
+      ) ||
+      (i === 0 && token.startsWith("var("))
+    ) {
+      border.width = token;
+    } else {
+      border.color = border.color ? `${border.color} ${token}` : token;
+    }
+  }
+  return border;
+};
+
+// Fewest side keys covering the box values: all sides (""), axes (y/x) or single sides
+const boxSides = ([top, right, bottom, left]: string[]): [string, string][] => {
+  if (top === right && right === bottom && bottom === left) return [["", top]];
+  const sides: [string, string][] = [];
+  if (top === bottom) {
+    sides.push(["y", top]);
+  } else {
+    sides.push(["t", top], ["b", bottom]);
+  }
+  if (left === right) {
+    sides.push(["x", left]);
+  } else {
+    sides.push(["r", right], ["l", left]);
+  }
+  return sides;
+};
+
+// Fewest corner keys covering the radii: all (""), sides (t/b or l/r) or single corners
+const cornerSides = ([topLeft, topRight, bottomRight, bottomLeft]: string[]): [
+  string,
+  string,
+][] => {
+  if (
+    topLeft === topRight &&
+    topRight === bottomRight &&
+    bottomRight === bottomLeft
+  ) {
+    return [["", topLeft]];
+  }
+  if (topLeft === topRight && bottomRight === bottomLeft) {
+    return [
+      ["t", topLeft],
+      ["b", bottomRight],
+    ];
+  }
+  if (topLeft === bottomLeft && topRight === bottomRight) {
+    return [
+      ["l", topLeft],
+      ["r", topRight],
+    ];
+  }
+  return [
+    ["tl", topLeft],
+    ["tr", topRight],
+    ["br", bottomRight],
+    ["bl", bottomLeft],
+  ];
+};
+
+// Split a value at top-level commas ("a(1, 2), b" → ["a(1, 2)", "b"])
+const splitCommas = (value: string): string[] => {
+  const parts: string[] = [];
+  let current = "";
+  let depth = 0;
+  for (const ch of value) {
+    if (ch === "(") depth++;
+    if (ch === ")") depth = Math.max(0, depth - 1);
+    if (ch === "," && depth === 0) {
+      parts.push(current.trim());
+      current = "";
+    } else {
+      current += ch;
+    }
+  }
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+};
+
+interface GradientStop {
+  color: string;
+  position: string | null;
+}
+
+interface LinearGradient {
+  direction: string; // degrees ("0", "135") or a corner ("tr", "bl")
+  stops: GradientStop[];
+}
+
+// Degrees of the side keywords and the keys of the corner keywords
+const gradientSides: Record<string, string> = {
+  "to top": "0",
+  "to right": "90",
+  "to bottom": "180",
+  "to left": "270",
+  "to top right": "tr",
+  "to right top": "tr",
+  "to bottom right": "br",
+  "to right bottom": "br",
+  "to bottom left": "bl",
+  "to left bottom": "bl",
+  "to top left": "tl",
+  "to left top": "tl",
+};
+
+// Degrees of an angle (null when it isn't one)
+const toDegrees = (angle: string): number | null => {
+  const match = angle.trim().match(/^(-?\d*\.?\d+)(deg|turn|rad|grad)$/);
+  if (!match) return null;
+  const factor = { deg: 1, turn: 360, rad: 180 / Math.PI, grad: 0.9 }[
+    match[2] as "deg" | "turn" | "rad" | "grad"
+  ];
+  const degrees = (parseFloat(match[1]) * factor) % 360;
+  return Math.round((degrees < 0 ? degrees + 360 : degrees) * 1e4) / 1e4;
+};
+
+// Milliseconds of a time (null when it isn't one)
+const toMs = (time: string): number | null => {
+  const match = time.trim().match(/^(\d*\.?\d+)(m?s)$/);
+  if (!match) return null;
+  const ms = parseFloat(match[1]) * (match[2] === "s" ? 1000 : 1);
+  return Math.round(ms * 1e4) / 1e4;
+};
+
+// Split a transition shorthand into its longhands (null when the items have
+// different timings, which no set of utilities can express)
+const parseTransition = (
+  value: string
+): Record<"property" | "duration" | "timing" | "delay", string> | null => {
+  const items = splitCommas(value).map((item) => {
+    const parsed = {
+      property: "all",
+      duration: "0s",
+      timing: "ease",
+      delay: "0s",
+    };
+    let times = 0;
+    for (const token of splitValues(item)) {
+      if (toMs(token) !== null) {
+        parsed[times++ === 0 ? "duration" : "delay"] = token;
+      } else if (
+        /^(ease(-in|-out|-in-out)?|linear|step-start|step-end)$|^(cubic-bezier|steps|linear)\(/.test(
+          token
+        )
+      ) {
+        parsed.timing = token;
+      } else {
+        parsed.property = token;
+      }
+    }
+    return parsed;
+  });
+  const [first] = items;
+  const shared = items.every(
+    (item) =>
+      item.duration === first.duration &&
+      item.timing === first.timing &&
+      item.delay === first.delay
+  );
+  return shared
+    ? { ...first, property: items.map((item) => item.property).join(", ") }
+    : null;
+};
+
+// Parse a linear-gradient() into its direction and stops (null for other
+// gradients, color hints, color interpolation and double stop positions)
+const parseLinearGradient = (value: string): LinearGradient | null => {
+  const match = value.trim().match(/^linear-gradient\((.*)\)$/i);
+  if (!match) return null;
+  const args = splitCommas(match[1]);
+  let direction = "180";
+  const first = args[0]?.toLowerCase().replace(/\s+/g, " ");
+  if (first && gradientSides[first]) {
+    direction = gradientSides[first];
+    args.shift();
+  } else if (first && toDegrees(first) !== null) {
+    direction = String(toDegrees(first));
+    args.shift();
+  }
+
+  const stops: GradientStop[] = [];
+  for (const arg of args) {
+    const [color, position = null, ...rest] = splitValues(arg);
+    const isColor =
+      parseColor(color) !== null ||
+      /^(__DICT__|var\()/.test(color) ||
+      /^(transparent|currentcolor)$/i.test(color);
+    if (!isColor || rest.length > 0) return null;
+    stops.push({ color, position });
+  }
+  return stops.length >= 2 ? { direction, stops } : null;
+};
+
+interface BackgroundLayers {
+  images: string[]; // image layers, top first
+  color: string | null; // color of the final layer
+  position: string | null; // position/size/repeat/attachment of a single layer
+  size: string | null;
+  repeat: string | null;
+  attachment: string | null;
+}
+
+// Parse the background shorthand into its image layers and final color, and
+// the position/size/repeat/attachment of a single layer (null when another
+// token, or several layers with those, can't be expressed with utilities)
+const parseBackground = (value: string): BackgroundLayers | null => {
+  const layers = splitCommas(value);
+  const result: BackgroundLayers = {
+    images: [],
+    color: null,
+    position: null,
+    size: null,
+    repeat: null,
+    attachment: null,
+  };
+  for (const [index, layer] of layers.entries()) {
+    const position: string[] = [];
+    const size: string[] = [];
+    let afterSlash = false;
+    // "50%/cover" → "50%", "/", "cover" (slashes inside url() and
+    // dictionary values like blue-500/50 stay)
+    const tokens = splitValues(layer).flatMap((token) =>
+      token.includes("(") || token.startsWith("__DICT__")
+        ? [token]
+        : token.split(/(\/)/).filter(Boolean)
+    );
+    for (const token of tokens) {
+      const lower = token.toLowerCase();
+      if (token === "/") {
+        afterSlash = true;
+      } else if (
+        /^(url|(repeating-)?(linear|radial|conic)-gradient)\(/i.test(token) ||
+        lower === "none"
+      ) {
+        result.images.push(token);
+      } else if (
+        /^(repeat|repeat-x|repeat-y|no-repeat|space|round)$/.test(lower)
+      ) {
+        if (result.repeat) return null;
+        result.repeat = lower;
+      } else if (/^(fixed|local|scroll)$/.test(lower)) {
+        if (result.attachment) return null;
+        result.attachment = lower;
+      } else if (afterSlash) {
+        size.push(token);
+      } else if (
+        /^(center|top|bottom|left|right)$/.test(lower) ||
+        /^-?\d*\.?\d+(%|[a-z]+)?$/.test(lower)
+      ) {
+        position.push(lower);
+      } else if (
+        index === layers.length - 1 &&
+        !result.color &&
+        (parseColor(token) !== null ||
+          /^(__DICT__|var\()/.test(token) ||
+          lower === "currentcolor")
+      ) {
+        result.color = token;
+      } else {
+        return null;
+      }
+    }
+    if (position.length > 0 || size.length > 0) {
+      if (result.position || result.size || layers.length > 1) return null;
+      result.position = position.join(" ") || null;
+      result.size = size.join(" ") || null;
+    }
+  }
+  if (layers.length > 1 && (result.repeat || result.attachment)) return null;
+  return result;
+};
+
+// Keywords of a two-value position ("0% 100%" → left bottom, "top" → center
+// top), null when an offset has no keyword
+const positionKeywords = (position: string) => {
+  const axisKeyword = (token: string, axis: "x" | "y") => {
+    if (token === "center" || token === "50%") return "center";
+    if (token === "0%" || token === "0") return axis === "x" ? "left" : "top";
+    if (token === "100%") return axis === "x" ? "right" : "bottom";
+    const keywords = axis === "x" ? ["left", "right"] : ["top", "bottom"];
+    return keywords.includes(token) ? token : null;
+  };
+  const tokens = position.trim().toLowerCase().split(/\s+/);
+  if (tokens.length > 2) return null;
+  let [first, second = "center"] = tokens;
+  // Keywords may come in either order ("top left")
+  if (/^(top|bottom)$/.test(first) || /^(left|right)$/.test(second)) {
+    [first, second] = [second, first];
+  }
+  const x = axisKeyword(first, "x");
+  const y = axisKeyword(second, "y");
+  return x && y ? { x, y } : null;
+};
+
+interface CSSFunction {
+  name: string; // e.g. "rotate", "translateX", "drop-shadow"
+  args: string[];
+}
+
+// Split a transform or filter into its functions (null when it isn't a
+// function list)
+const parseFunctions = (value: string): CSSFunction[] | null => {
+  const functions: CSSFunction[] = [];
+  for (const token of splitValues(value)) {
+    const match = token.match(/^([a-zA-Z][\w-]*)\((.*)\)$/);
+    if (!match) return null;
+    functions.push({ name: match[1], args: splitCommas(match[2]) });
+  }
+  return functions.length > 0 ? functions : null;
+};
+
+// Group declarations into their layer blocks, in source order
+const groupBlocks = (declarations: CSSDeclaration[]): CSSBlock[] => {
+  const blocks = new Map<number, CSSBlock>();
+  for (const declaration of declarations) {
+    const existing = blocks.get(declaration.block);
+    if (existing) {
+      existing.declarations.push(declaration);
+    } else {
+      blocks.set(declaration.block, {
+        name: declaration.layer ?? `Layer ${blocks.size + 1}`,
+        declarations: [declaration],
+      });
+    }
+  }
+  return [...blocks.values()];
+};
+
+interface VarReference {
+  start: number;
+  end: number; // index of the closing parenthesis
+  name: string;
+  fallback: string | null;
+}
+
+// Find the next var() reference at or after `from`, with its fallback
+// (null for unbalanced parentheses or when there is no reference)
+const findVarReference = (value: string, from: number): VarReference | null => {
+  const start = value.indexOf("var(", from);
+  if (start === -1) return null;
+
+  // Find the matching closing parenthesis and the first top-level comma
+  let depth = 0;
+  let comma = -1;
+  let end = start + 3;
+  for (; end < value.length; end++) {
+    if (value[end] === "(") {
+      depth++;
+    } else if (value[end] === ")") {
+      depth--;
+      if (depth === 0) break;
+    } else if (value[end] === "," && depth === 1 && comma === -1) {
+      comma = end;
+    }
+  }
+  if (end >= value.length) return null;
+
+  return {
+    start,
+    end,
+    name: value.slice(start + 4, comma === -1 ? end : comma).trim(),
+    fallback: comma === -1 ? null : value.slice(comma + 1, end).trim(),
+  };
+};
+
+// Replace var() references with dictionary values (marked with __DICT__) or
+// their fallbacks, resolving nested references like var(--a, var(--b, #fff)).
+// Unmapped variables without a fallback are kept as-is, and with keepUnmapped
+// every unmapped variable is kept (without its fallback)
+const resolveVariables = (
+  value: string,
+  varDict: VarDict,
+  keepUnmapped = false
+): string => {
+  let result = "";
+  let i = 0;
+
+  while (i < value.length) {
+    const reference = findVarReference(value, i);
+    if (!reference) {
+      // No more references (or unbalanced parentheses), keep the rest untouched
+      result += value.slice(i);
+      break;
+    }
+    const { start, end, name, fallback } = reference;
+    result += value.slice(i, start);
+
+    if (varDict[name]) {
+      // Store the mapped value with a special marker to indicate it's from dict
+      result += `__DICT__${varDict[name]}`;
+    } else if (keepUnmapped) {
+      result += `var(${name})`;
+    } else if (fallback !== null) {
+      // Use fallback value (remove quotes if present)
+      result += resolveVariables(fallback, varDict).replace(/^["']|["']$/g, "");
+    } else {
+      result += value.slice(start, end + 1);
+    }
+    i = end + 1;
+  }
+
+  return result;
+};
+
+// Dictionary values that are plain CSS colors or numbers (e.g. imported
+// variables) lose their marker, so they convert like any other value
+const unmarkCSSValues = (value: string) =>
+  value.replace(/__DICT__(\S+)/g, (marker, dictValue: string) => {
+    // Inside a function the marker runs into its closing parenthesis or
+    // comma ("linear-gradient(__DICT__#fff, __DICT__#000)")
+    for (let end = dictValue.length; end > 0; end--) {
+      const candidate = dictValue.slice(0, end);
+      if (
+        parseColor(candidate) ||
+        /^-?\d*\.?\d+(px|rem|em|%)?$/.test(candidate)
+      ) {
+        return candidate + dictValue.slice(end);
+      }
+      if (!/[),]$/.test(candidate)) break;
+    }
+    return marker;
+  });
+
+// Collect every unmapped variable referenced by the declarations (including
+// nested fallbacks) with its first fallback ("" when none is given)
+const collectVariables = (
+  declarations: CSSDeclaration[],
+  varDict: VarDict
+): Record<string, string> => {
+  const variables: Record<string, string> = {};
+  const scan = (value: string) => {
+    let reference = findVarReference(value, 0);
+    while (reference) {
+      const { name, fallback } = reference;
+      if (!varDict[name] && !variables[name]) variables[name] = fallback ?? "";
+      if (fallback) scan(fallback);
+      reference = findVarReference(value, reference.end + 1);
+    }
+  };
+  declarations.forEach((declaration) => scan(declaration.value));
+  return variables;
+};
+
+// Build the stylesheet block that defines preserved variables: an @theme
+// block for Tailwind v4, :root for v3
+const buildVariableTheme = (
+  variables: Record<string, string>,
+  target: TailwindTarget
+) => {
+  const lines = Object.entries(variables).map(([name, fallback]) =>
+    fallback
+      ? `  ${name}: ${fallback};`
+      : `  /* ${name}: no fallback in the pasted CSS */`
+  );
+  if (lines.length === 0) return "";
+  return `${target === "v4" ? "@theme" : ":root"} {\n${lines.join("\n")}\n}`;
+};
+
+// ---------- VARIABLE RULES ----------
+// Pattern rule mapping many variables at once
+// (e.g. --Color-Brand-(\d+) → brand-$1, or --Space-* → $1 as a glob)
+export interface VarRule {
+  pattern: string;
+  replacement: string;
+  glob: boolean; // "*" wildcards (captured as $1, $2...) instead of a regex
+}
+
+// Compile a rule to a regex matching the whole variable name (null if invalid)
+export const ruleRegex = ({ pattern, glob }: VarRule): RegExp | null => {
+  const source = glob
+    ? pattern
+        .split("*")
+        .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+        .join("(.*)")
+    : pattern;
+  try {
+    return new RegExp(`^(?:${source})$`);
+  } catch {
+    return null;
+  }
+};
+
+// Map variables that have no dictionary entry with the first matching rule
+const applyVarRules = (
+  names: string[],
+  rules: VarRule[],
+  varDict: VarDict
+): VarDict => {
+  const compiled = rules.flatMap((rule) => {
+    const regex = ruleRegex(rule);
+    return regex ? [{ regex, replacement: rule.replacement }] : [];
+  });
+  const mapped: VarDict = {};
+  for (const name of names) {
+    if (varDict[name]) continue;
+    const rule = compiled.find(({ regex }) => regex.test(name));
+    if (rule) mapped[name] = name.replace(rule.regex, rule.replacement);
+  }
+  return mapped;
+};
+
+export interface VarModes {
+  [variant: string]: VarDict; // variant (e.g. "dark") → dictionary overrides for that mode
+}
+
+export interface ImportedVariables {
+  base: VarDict; // values of the default (or light) mode
+  modes: VarModes;
+  warnings: string[]; // modes without a Tailwind variant, with the snippet that adds one
+}
+
+// Figma REST API shapes (GET /v1/files/:key/variables/local)
+interface FigmaVariable {
+  id: string;
+  name: string;
+  resolvedType: "COLOR" | "FLOAT" | "STRING" | "BOOLEAN";
+  variableCollectionId: string;
+  valuesByMode: Record<string, unknown>;
+}
+
+interface FigmaVariableCollection {
+  id: string;
+  defaultModeId: string;
+  modes: { modeId: string; name: string }[];
+}
+
+// CSS variable name Figma Dev Mode uses for a variable ("Border/Medium" → "--Border-Medium")
+const toVarName = (name: string) => `--${name.trim().replace(/[\s/.]+/g, "-")}`;
+
+// Variant for a mode name ("Dark" → "dark", "High Contrast" → "high-contrast")
+const toModeVariant = (mode: string) =>
+  mode
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+
+// Tailwind's own variant for a mode: dark modes are dark:, light modes the
+// base styles (""); null for modes Tailwind has no variant for
+const knownModeVariant = (mode: string) => {
+  const known = toModeVariant(mode).match(/^(dark|light)(-(mode|theme))?$/);
+  if (!known) return null;
+  return known[1] === "dark" ? "dark" : "";
+};
+
+// A mode whose variant Tailwind doesn't have, with the v4 @custom-variant and
+// the v3 plugin that add it
+const customVariantWarning = (mode: string, variant: string) =>
+  `Mode "${mode}" has no Tailwind variant. Add it for ${variant}: classes ` +
+  `with @custom-variant ${variant} (&:where([data-mode=${variant}], [data-mode=${variant}] *)); ` +
+  `(v4) or addVariant("${variant}", "[data-mode=${variant}] &") (v3)`;
+
+// Format a color as #rrggbb, or #rrggbbaa when translucent
+const formatColor = (rgba: RGBA) =>
+  toHex(rgba) +
+  (rgba.a < 1
+    ? Math.round(rgba.a * 255)
+        .toString(16)
+        .padStart(2, "0")
+    : "");
+
+// Figma colors are { r, g, b, a } with channels from 0 to 1
+const figmaColorToCss = (value: unknown): string | null => {
+  if (!value || typeof value !== "object" || !("r" in value)) return null;
+  const { r, g, b, a = 1 } = value as Record<string, number>;
+  return formatColor({
+    r: Math.round(r * 255),
+    g: Math.round(g * 255),
+    b: Math.round(b * 255),
+    a,
+  });
+};
+
+// W3C colors are CSS strings or { colorSpace, components, alpha, hex } objects
+const designTokenColorToCss = (value: unknown): string | null => {
+  if (typeof value === "string") return value;
+  if (!value || typeof value !== "object") return null;
+  const {
+    hex,
+    components,
+    alpha = 1,
+  } = value as {
+    hex?: string;
+    components?: number[];
+    alpha?: number;
+  };
+  const rgba = hex
+    ? parseColor(hex)
+    : components
+      ? {
+          r: Math.round(components[0] * 255),
+          g: Math.round(components[1] * 255),
+          b: Math.round(components[2] * 255),
+          a: 1,
+        }
+      : null;
+  return rgba ? formatColor({ ...rgba, a: alpha }) : null;
+};
+
+// Suggest a dictionary value for a variable. Palette colors become their
+// name (blue-500), spacing lengths their step (16px → 4) and font families
+// the theme font name or a font-* name; anything else stays a CSS value
+// (toTailwind converts it like any other value)
+const suggestVarValue = (
+  type: string,
+  name: string,
+  value: unknown,
+  scales: ThemeScales
+): string | null => {
+  if (value === null || value === undefined || typeof value === "boolean") {
+    return null;
+  }
+  if (typeof value === "object") {
+    // W3C dimensions can be { value, unit }
+    const { value: amount, unit } = value as { value?: number; unit?: string };
+    return amount !== undefined
+      ? suggestVarValue(type, name, `${amount}${unit ?? "px"}`, scales)
+      : null;
+  }
+
+  const rgba = type === "color" ? parseColor(String(value)) : null;
+  if (rgba) {
+    const color = matchColor(rgba, scales.palette, defaultColorOptions);
+    if (!color) return String(value);
+    return rgba.a < 1 ? `${color}/${Math.round(rgba.a * 100)}` : color;
+  }
+
+  const isFontFamily =
+    type === "fontFamily" ||
+    (type === "string" && /font|family|typeface/i.test(name));
+  if (isFontFamily || Array.isArray(value)) {
+    const family = Array.isArray(value) ? String(value[0]) : String(value);
+    return (
+      scales.fontFamilyMap[normalizeFontFamily(family)] ??
+      normalizeFontFamily(family).replace(/[^a-z0-9]+/g, "-")
+    );
+  }
+
+  if (typeof value === "number") {
+    // Figma numbers are px, except unitless properties
+    return /weight|opacity|line-?height|z-?index/i.test(name)
+      ? String(value)
+      : suggestVarValue(type, name, `${value}px`, scales);
+  }
+  if (/spac|gap|padding|margin|inset|gutter/i.test(name)) {
+    const step = matchScale(
+      String(value),
+      scales.spacingScale,
+      defaultScaleOptions
+    );
+    if (step !== null) return step;
+  }
+  return String(value);
+};
+
+// Import a Figma REST variables export, with every mode
+const importFigmaVariables = (
+  json: Record<string, unknown>,
+  scales: ThemeScales
+): ImportedVariables => {
+  const meta = (json.meta ?? json) as {
+    variables?: Record<string, FigmaVariable> | FigmaVariable[];
+    variableCollections?:
+      Record<string, FigmaVariableCollection> | FigmaVariableCollection[];
+  };
+  const variables = Object.values(meta.variables ?? {});
+  const collections = Object.values(meta.variableCollections ?? {});
+  const variablesById = new Map(variables.map((v) => [v.id, v]));
+  const result: ImportedVariables = { base: {}, modes: {}, warnings: [] };
+  const warned = new Set<string>();
+
+  // Follow aliases to the target variable's value in the same mode
+  const resolveAlias = (value: unknown, modeId: string, depth = 0): unknown => {
+    const alias = value as { type?: string; id?: string } | null;
+    if (alias?.type !== "VARIABLE_ALIAS" || depth > 10) return value;
+    const target = alias.id ? variablesById.get(alias.id) : undefined;
+    if (!target) return undefined;
+    const targetValue =
+      target.valuesByMode[modeId] ?? Object.values(target.valuesByMode)[0];
+    return resolveAlias(targetValue, modeId, depth + 1);
+  };
+
+  for (const variable of variables) {
+    const collection = collections.find(
+      (c) => c.id === variable.variableCollectionId
+    );
+    const modeName = (modeId: string) =>
+      collection?.modes.find((mode) => mode.modeId === modeId)?.name ?? modeId;
+    // A light mode is the base even when the file's default mode is dark
+    const defaultModeId =
+      collection?.defaultModeId ?? Object.keys(variable.valuesByMode)[0];
+    const baseModeId =
+      knownModeVariant(modeName(defaultModeId)) === "dark"
+        ? (Object.keys(variable.valuesByMode).find(
+            (modeId) => knownModeVariant(modeName(modeId)) === ""
+          ) ?? defaultModeId)
+        : defaultModeId;
+    const key = toVarName(variable.name);
+    const type = variable.resolvedType.toLowerCase();
+
+    for (const [modeId, rawValue] of Object.entries(variable.valuesByMode)) {
+      const resolved = resolveAlias(rawValue, modeId);
+      const value = type === "color" ? figmaColorToCss(resolved) : resolved;
+      const suggestion = suggestVarValue(type, variable.name, value, scales);
+      if (suggestion === null) continue;
+
+      if (modeId === baseModeId) {
+        result.base[key] = suggestion;
+      } else {
+        const name = modeName(modeId);
+        const variant = knownModeVariant(name) || toModeVariant(name);
+        if (variant !== "dark" && !warned.has(variant)) {
+          warned.add(variant);
+          result.warnings.push(customVariantWarning(name, variant));
+        }
+        result.modes[variant] = {
+          ...result.modes[variant],
+          [key]: suggestion,
+        };
+      }
+    }
+  }
+
+  return result;
+};
+
+// Import a W3C design tokens file (.tokens.json). Each file holds one mode;
+// an empty mode imports into the base dictionary
+const importDesignTokens = (
+  json: Record<string, unknown>,
+  mode: string,
+  scales: ThemeScales
+): ImportedVariables => {
+  const tokens: { path: string[]; type?: string; value: unknown }[] = [];
+
+  // Tokens are nested in groups; $type is inherited from the enclosing group
+  const walk = (node: unknown, path: string[], inheritedType?: string) => {
+    if (!node || typeof node !== "object") return;
+    const group = node as Record<string, unknown>;
+    const type = (group.$type as string | undefined) ?? inheritedType;
+    if ("$value" in group) {
+      tokens.push({ path, type, value: group.$value });
+      return;
+    }
+    for (const [key, child] of Object.entries(group)) {
+      if (!key.startsWith("$")) walk(child, [...path, key], type);
+    }
+  };
+  walk(json, []);
+
+  // Resolve "{group.token}" aliases
+  const tokensByPath = new Map(tokens.map((t) => [t.path.join("."), t]));
+  const resolveAlias = (value: unknown, depth = 0): unknown => {
+    if (typeof value !== "string" || depth > 10) return value;
+    const alias = value.match(/^\{([^}]+)\}$/);
+    if (!alias) return value;
+    return resolveAlias(tokensByPath.get(alias[1])?.value, depth + 1);
+  };
+
+  const dict: VarDict = {};
+  for (const token of tokens) {
+    const resolved = resolveAlias(token.value);
+    const value =
+      token.type === "color" ? designTokenColorToCss(resolved) : resolved;
+    const name = token.path.join("/");
+    const suggestion = suggestVarValue(token.type ?? "", name, value, scales);
+    if (suggestion !== null) dict[toVarName(name)] = suggestion;
+  }
+
+  const variant = knownModeVariant(mode) ?? toModeVariant(mode);
+  if (!variant) return { base: dict, modes: {}, warnings: [] };
+  return {
+    base: {},
+    modes: { [variant]: dict },
+    warnings:
+      variant === "dark" ? [] : [customVariantWarning(mode.trim(), variant)],
+  };
+};
+
+// Import either a Figma variables export or a W3C design tokens file
+export const importVariables = (
+  json: unknown,
+  mode: string,
+  scales: ThemeScales
+): ImportedVariables => {
+  if (!json || typeof json !== "object" || Array.isArray(json)) {
+    throw new Error("Expected a JSON object");
+  }
+  const data = json as Record<string, unknown>;
+  const meta = (data.meta ?? data) as Record<string, unknown>;
+  if (meta.variables && meta.variableCollections) {
+    return importFigmaVariables(data, scales);
+  }
+  return importDesignTokens(data, mode, scales);
+};
+
+// ---------- CLASS EMITTER ----------
+// Utilities whose arbitrary values can mean several properties, so values
+// Tailwind can't infer need a type hint (text-[length:var(--x)])
+const ambiguousUtilities = new Set([
+  "text",
+  "font",
+  "decoration",
+  "shadow",
+  "outline",
+  "ring",
+  "stroke",
+  ...["", "-x", "-y", "-t", "-r", "-b", "-l", "-s", "-e"].map(
+    (side) => `border${side}`
+  ),
+]);
+
+// Whether Tailwind infers the hinted data type from the value itself
+const isInferredType = (hint: string, value: string) => {
+  switch (hint) {
+    case "color":
+      return parseColor(value) !== null;
+    case "length":
+      return (
+        /^-?\d*\.?\d+(px|rem|em|%|vh|vw|svh|dvh|ch|ex|pt)$/.test(value) ||
+        /^(calc|min|max|clamp)\(/.test(value)
+      );
+    case "number":
+      return /^-?\d*\.?\d+$/.test(value);
+    default:
+      return !value.startsWith("var(");
+  }
+};
+
+// Whether a length-hinted value can be a length: a dimension, math, a
+// variable or a width/size keyword (not "none", which border: none would give)
+const isLengthValue = (value: string) =>
+  /^-?\d*\.?\d+([a-z]+|%)?$/.test(value) ||
+  /^(calc|min|max|clamp|var|env)\(/.test(value) ||
+  /^(thin|medium|thick|(x{1,3}-)?(small|large)|smaller|larger|auto|from-font|inherit|initial|unset|revert)$/.test(
+    value
+  );
+
+// Escape a CSS value for use inside [...]: underscores stay literal, spaces
+// become underscores and double quotes become single quotes
+// ('"Helvetica Neue", sans-serif' → "'Helvetica_Neue',sans-serif")
+const escapeArbitrary = (value: string) =>
+  value
+    .trim()
+    .replace(/_/g, "\\_")
+    .replace(/"/g, "'")
+    .replace(/\s*,\s*/g, ",")
+    .replace(/\s+/g, "_");
+
+// Arbitrary value class (e.g. "shadow-[0_4px_8px_#0000001a]"), with a type
+// hint when the utility is ambiguous and the value doesn't tell the type
+const arbitraryClass = (twKey: string, value: string, hint?: string) => {
+  const typed =
+    hint && ambiguousUtilities.has(twKey) && !isInferredType(hint, value)
+      ? `${hint}:`
+      : "";
+  return `${twKey}-[${typed}${escapeArbitrary(value)}]`;
+};
+
+// Arbitrary property class for CSS without a utility (e.g. "[font-style:oblique]")
+const arbitraryProperty = (property: string, value: string) =>
+  `[${property}:${escapeArbitrary(value)}]`;
+
+// Variable class: "bg-(--x)" in v4, "bg-[var(--x)]" in v3
+const variableClass = (
+  twKey: string,
+  name: string,
+  target: TailwindTarget,
+  hint?: string
+) => {
+  const typed = hint && ambiguousUtilities.has(twKey) ? `${hint}:` : "";
+  return target === "v4"
+    ? `${twKey}-(${typed}${name})`
+    : `${twKey}-[${typed}var(${name})]`;
+};
+
+// ---------- CLASS VALIDATION ----------
+// Named values of a utility, checked against the theme scales and target
+type UtilityValues = (
+  value: string,
+  context: { scales: ThemeScales; target: TailwindTarget }
+) => boolean;
+
+const oneOf =
+  (...values: string[]): UtilityValues =>
+  (value) =>
+    values.includes(value);
+
+const isColorValue: UtilityValues = (value, { scales }) => {
+  const name = value.replace(/\/(\d+|\[[^\]]+\])$/, "");
+  return (
+    ["white", "black", "transparent", "current", "inherit"].includes(name) ||
+    scales.colorNames.includes(name) ||
+    scales.palette.some((entry) => entry.name === name)
+  );
+};
+
+const isSpacingValue: UtilityValues = (value, { scales, target }) =>
+  value === "px" ||
+  (target === "v4"
+    ? /^\d+(\.(25|5|75))?$/.test(value)
+    : Object.values(scales.spacingScale).includes(value));
+
+const isSizeValue: UtilityValues = (value, { scales, target }) =>
+  isSpacingValue(value, { scales, target }) ||
+  /^\d+\/\d+$/.test(value) ||
+  ["auto", "full", "screen", "min", "max", "fit", "svw", "svh", "dvh"].includes(
+    value
+  );
+
+const alignmentValues = oneOf(
+  "start",
+  "end",
+  "center",
+  "between",
+  "around",
+  "evenly",
+  "stretch",
+  "baseline",
+  "normal"
+);
+
+// Utility prefixes and their named values (arbitrary [...] values, and (...)
+// variables in v4, are accepted by every prefix)
+const utilityGrammar: [RegExp, UtilityValues][] = [
+  [/^(p|m)[xytrblse]?$|^gap(-[xy])?$/, isSpacingValue],
+  [/^m[xytrblse]?$|^(inset(-[xy])?|top|right|bottom|left)$/, oneOf("auto")],
+  [/^(inset(-[xy])?|top|right|bottom|left)$/, isSizeValue],
+  [/^(w|h|size|min-w|max-w|min-h|max-h|basis)$/, isSizeValue],
+  [
+    /^text$/,
+    (value, { scales }) => {
+      const size = value.split("/")[0];
+      return Object.values(scales.fontSizeMap).includes(size);
+    },
+  ],
+  [/^text$/, oneOf("left", "center", "right", "justify", "start", "end")],
+  [
+    /^font$/,
+    (value, { scales }) =>
+      Object.values(scales.fontWeightMap).includes(value) ||
+      scales.fontNames.includes(value),
+  ],
+  [
+    /^leading$/,
+    (value, { scales, target }) =>
+      Object.values(scales.lineHeightMap).includes(value) ||
+      (target === "v4"
+        ? isSpacingValue(value, { scales, target })
+        : /^([3-9]|10)$/.test(value)),
+  ],
+  [
+    /^tracking$/,
+    (value, { scales }) =>
+      Object.values(scales.letterSpacingMap).includes(value),
+  ],
+  [
+    /^(text|bg|border(-[xytrblse])?|decoration|outline|ring|divide|placeholder|accent|caret|fill|stroke|from|via|to)$/,
+    isColorValue,
+  ],
+  [
+    /^bg$/,
+    oneOf(
+      "none",
+      "cover",
+      "contain",
+      "auto",
+      "fixed",
+      "local",
+      "scroll",
+      "repeat",
+      "no-repeat",
+      "repeat-x",
+      "repeat-y",
+      "repeat-space",
+      "repeat-round",
+      "center",
+      "top",
+      "bottom",
+      "left",
+      "right"
+    ),
+  ],
+  // Corner positions (v4 renamed bg-left-top to bg-top-left)
+  [
+    /^bg$/,
+    (value, { target }) =>
+      (target === "v4"
+        ? /^(top|bottom)-(left|right)$/
+        : /^(left|right)-(top|bottom)$/
+      ).test(value),
+  ],
+  // Gradient directions (v4 renamed bg-gradient-to-* to bg-linear-to-* and
+  // takes any angle)
+  [/^bg-gradient-to$/, oneOf("t", "tr", "r", "br", "b", "bl", "l", "tl")],
+  [
+    /^bg-linear-to$/,
+    (value, { target }) =>
+      target === "v4" &&
+      ["t", "tr", "r", "br", "b", "bl", "l", "tl"].includes(value),
+  ],
+  [
+    /^bg-linear$/,
+    (value, { target }) => target === "v4" && /^\d+$/.test(value),
+  ],
+  [
+    /^(from|via|to)$/,
+    (value, { target }) => {
+      const percent = value.match(/^(\d+)%$/);
+      return (
+        percent !== null &&
+        Number(percent[1]) <= 100 &&
+        (target === "v4" || Number(percent[1]) % 5 === 0)
+      );
+    },
+  ],
+  [
+    /^z$/,
+    (value, { target }) =>
+      value === "auto" ||
+      (target === "v4"
+        ? /^\d+$/.test(value)
+        : ["0", "10", "20", "30", "40", "50"].includes(value)),
+  ],
+  [
+    /^rotate$/,
+    (value, { target }) =>
+      target === "v4"
+        ? /^\d+$/.test(value)
+        : ["0", "1", "2", "3", "6", "12", "45", "90", "180"].includes(value),
+  ],
+  [
+    /^scale(-[xy])?$/,
+    (value, { target }) =>
+      target === "v4"
+        ? /^\d+$/.test(value)
+        : [
+            "0",
+            "50",
+            "75",
+            "90",
+            "95",
+            "100",
+            "105",
+            "110",
+            "125",
+            "150",
+          ].includes(value),
+  ],
+  [
+    /^translate-[xy]$/,
+    (value, { scales, target }) =>
+      isSpacingValue(value, { scales, target }) ||
+      value === "full" ||
+      /^[1-3]\/[2-4]$/.test(value),
+  ],
+  [
+    /^origin$/,
+    oneOf(
+      "center",
+      "top",
+      "top-right",
+      "right",
+      "bottom-right",
+      "bottom",
+      "bottom-left",
+      "left",
+      "top-left"
+    ),
+  ],
+  [/^border(-[xytrblse])?$/, oneOf("0", "2", "4", "8")],
+  [
+    /^rounded(-(tl|tr|br|bl|t|r|b|l|ss|se|es|ee|s|e))?$/,
+    (value, { scales }) =>
+      value !== "" && Object.values(scales.radiusScale).includes(value),
+  ],
+  [
+    /^shadow$/,
+    (value, { scales, target }) =>
+      [
+        ...(target === "v4" ? ["2xs", "xs"] : []),
+        "sm",
+        "md",
+        "lg",
+        "xl",
+        "2xl",
+        "inner",
+        "none",
+      ].includes(value) ||
+      Object.values(scales.shadowMap).includes(value) ||
+      isColorValue(value, { scales, target }),
+  ],
+  [
+    /^(backdrop-)?blur$/,
+    (value, { target }) =>
+      ["none", "sm", "md", "lg", "xl", "2xl", "3xl"].includes(value) ||
+      (target === "v4" && value === "xs"),
+  ],
+  [
+    /^drop-shadow$/,
+    (value, { target }) =>
+      ["none", "sm", "md", "lg", "xl", "2xl"].includes(value) ||
+      (target === "v4" && value === "xs"),
+  ],
+  [
+    /^inset-shadow$/,
+    (value, { target }) =>
+      target === "v4" && ["none", "2xs", "xs", "sm"].includes(value),
+  ],
+  // Filter amounts: v3 has fixed steps, v4 any integer
+  [
+    /^(backdrop-)?(brightness|contrast|saturate|hue-rotate|grayscale|invert|sepia)$|^backdrop-opacity$/,
+    (value, { target }) => target === "v4" && /^\d+$/.test(value),
+  ],
+  [
+    /^(backdrop-)?brightness$/,
+    oneOf(
+      "0",
+      "50",
+      "75",
+      "90",
+      "95",
+      "100",
+      "105",
+      "110",
+      "125",
+      "150",
+      "200"
+    ),
+  ],
+  [
+    /^(backdrop-)?contrast$/,
+    oneOf("0", "50", "75", "100", "125", "150", "200"),
+  ],
+  [/^(backdrop-)?saturate$/, oneOf("0", "50", "100", "150", "200")],
+  [/^(backdrop-)?hue-rotate$/, oneOf("0", "15", "30", "60", "90", "180")],
+  [/^(backdrop-)?(grayscale|invert|sepia)$/, oneOf("0")],
+  [
+    /^backdrop-opacity$/,
+    (value) =>
+      /^\d+$/.test(value) && Number(value) % 5 === 0 && Number(value) <= 100,
+  ],
+  [
+    /^whitespace$/,
+    oneOf("normal", "nowrap", "pre", "pre-line", "pre-wrap", "break-spaces"),
+  ],
+  [/^overflow(-[xy])?$/, oneOf("auto", "hidden", "clip", "visible", "scroll")],
+  [
+    /^line-clamp$/,
+    (value, { target }) =>
+      value === "none" ||
+      (target === "v4"
+        ? /^\d+$/.test(value)
+        : ["1", "2", "3", "4", "5", "6"].includes(value)),
+  ],
+  [/^indent$/, isSpacingValue],
+  [
+    /^wrap$/,
+    (value, { target }) =>
+      target === "v4" && ["normal", "break-word", "anywhere"].includes(value),
+  ],
+  [
+    /^(mix|bg)-blend$/,
+    oneOf(
+      "normal",
+      "multiply",
+      "screen",
+      "overlay",
+      "darken",
+      "lighten",
+      "color-dodge",
+      "color-burn",
+      "hard-light",
+      "soft-light",
+      "difference",
+      "exclusion",
+      "hue",
+      "saturation",
+      "color",
+      "luminosity",
+      "plus-darker",
+      "plus-lighter"
+    ),
+  ],
+  [
+    /^(duration|delay)$/,
+    (value, { target }) =>
+      target === "v4"
+        ? /^\d+$/.test(value)
+        : [
+            "0",
+            "75",
+            "100",
+            "150",
+            "200",
+            "300",
+            "500",
+            "700",
+            "1000",
+          ].includes(value),
+  ],
+  // Only arbitrary values; the named ones are static utilities
+  [/^(transition|ease)$/, oneOf()],
+  [
+    /^opacity$/,
+    (value, { target }) =>
+      target === "v4"
+        ? /^\d+$/.test(value) && Number(value) <= 100
+        : /^\d+$/.test(value) &&
+          Number(value) % 5 === 0 &&
+          Number(value) <= 100,
+  ],
+  [
+    /^decoration$/,
+    oneOf(
+      "solid",
+      "double",
+      "dotted",
+      "dashed",
+      "wavy",
+      "auto",
+      "from-font",
+      "0",
+      "1",
+      "2",
+      "4",
+      "8"
+    ),
+  ],
+  [/^underline-offset$/, oneOf("auto", "0", "1", "2", "4", "8")],
+  [/^(justify|content)$/, alignmentValues],
+  [
+    /^(items|self)$/,
+    (value, { scales, target }) =>
+      value !== "between" && alignmentValues(value, { scales, target }),
+  ],
+  [/^self$/, oneOf("auto")],
+  [
+    /^(grow|shrink)$/,
+    (value, { target }) =>
+      value === "0" || (target === "v4" && /^\d+$/.test(value)),
+  ],
+  [
+    /^flex$/,
+    (value, { target }) =>
+      [
+        "1",
+        "auto",
+        "initial",
+        "none",
+        "row",
+        "row-reverse",
+        "col",
+        "col-reverse",
+        "wrap",
+        "wrap-reverse",
+        "nowrap",
+      ].includes(value) ||
+      (target === "v4" && /^\d+$/.test(value)),
+  ],
+];
+
+// Utilities without a value
+const staticUtilities = new Set([
+  "flex",
+  "inline-flex",
+  "grid",
+  "inline-grid",
+  "block",
+  "inline-block",
+  "inline",
+  "contents",
+  "hidden",
+  "static",
+  "relative",
+  "absolute",
+  "fixed",
+  "sticky",
+  "transform-none",
+  "grow",
+  "shrink",
+  "underline",
+  "overline",
+  "line-through",
+  "no-underline",
+  "italic",
+  "not-italic",
+  "border",
+  "border-solid",
+  "border-dashed",
+  "border-dotted",
+  "border-double",
+  "border-hidden",
+  "border-none",
+  "rounded",
+  "shadow",
+  "blur",
+  "grayscale",
+  "invert",
+  "sepia",
+  "drop-shadow",
+  "filter-none",
+  "backdrop-blur",
+  "backdrop-grayscale",
+  "backdrop-invert",
+  "backdrop-sepia",
+  "backdrop-filter-none",
+  "uppercase",
+  "lowercase",
+  "capitalize",
+  "normal-case",
+  "truncate",
+  "text-ellipsis",
+  "text-clip",
+  "normal-nums",
+  "ordinal",
+  "slashed-zero",
+  "lining-nums",
+  "oldstyle-nums",
+  "proportional-nums",
+  "tabular-nums",
+  "diagonal-fractions",
+  "stacked-fractions",
+  "break-normal",
+  "break-words",
+  "break-all",
+  "break-keep",
+  "content-none",
+  "transition",
+  "transition-none",
+  "transition-all",
+  "transition-colors",
+  "transition-opacity",
+  "transition-shadow",
+  "transition-transform",
+  "ease-linear",
+  "ease-in",
+  "ease-out",
+  "ease-in-out",
+  ...["x", "y", "t", "r", "b", "l", "s", "e"].map((side) => `border-${side}`),
+  ...["t", "r", "b", "l", "tl", "tr", "br", "bl", "s", "e"].map(
+    (side) => `rounded-${side}`
+  ),
+]);
+
+// Explain why a class would generate no CSS (null when it is a known utility)
+export const validateClass = (
+  className: string,
+  scales: ThemeScales,
+  target: TailwindTarget
+): string | null => {
+  const { base } = parseClassName(className);
+
+  // Arbitrary property ([text-underline-position:under])
+  if (base.startsWith("[")) {
+    return /^\[-?[a-z][a-z-]*:[^\s]+\]$/.test(base)
+      ? null
+      : "Invalid arbitrary property";
+  }
+  if (staticUtilities.has(base)) return null;
+  if (/\s/.test(base)) return "Arbitrary values can't contain spaces";
+
+  // Arbitrary value (text-[length:var(--x)]) or v4 variable (bg-(--x)), with
+  // an optional modifier (bg-[#123456]/50)
+  const arbitrary = base.match(/^(.+?)-(\[.+?\]|\(.+?\))(\/\S+)?$/);
+  if (arbitrary) {
+    if (arbitrary[2].startsWith("(") && target === "v3") {
+      return "The (--variable) shorthand needs Tailwind v4";
+    }
+    const { value, hint } = parseArbitraryValue(arbitrary[2]);
+    if (hint === "length" && !isLengthValue(value)) {
+      return "Length hint on a value that isn't a length";
+    }
+    // grow-[200px] and grow-[initial] generate invalid flex factors
+    if (
+      /^(grow|shrink)$/.test(arbitrary[1]) &&
+      !/^\d*\.?\d+$|^var\(/.test(value)
+    ) {
+      return "Flex factors are unitless numbers";
+    }
+    // font-[…] is a family or a weight, not a style, stretch or size
+    if (
+      arbitrary[1] === "font" &&
+      !hint &&
+      /^(italic|oblique|small-caps|((ultra|extra|semi)-)?(condensed|expanded)|-?\d*\.?\d+([a-z]+|%))$/.test(
+        value
+      )
+    ) {
+      return "Not a font family or weight";
+    }
+    return utilityGrammar.some(([pattern]) => pattern.test(arbitrary[1]))
+      ? null
+      : "Unknown utility";
+  }
+
+  // Try every prefix/value split, longest prefix first (border-t-2 → border-t + 2)
+  const parts = base.split("-");
+  let knownPrefix = false;
+  for (let i = parts.length - 1; i > 0; i--) {
+    const prefix = parts.slice(0, i).join("-");
+    const value = parts.slice(i).join("-");
+    for (const [pattern, accepts] of utilityGrammar) {
+      if (!pattern.test(prefix)) continue;
+      knownPrefix = true;
+      if (accepts(value, { scales, target })) return null;
+    }
+  }
+  return knownPrefix ? "Unknown value for this utility" : "Unknown utility";
+};
+
+// Utility part of a full class (e.g. "border-" in "border-gray-400")
+const utilityPrefix =
+  /^(text|bg|font|leading|tracking|shadow|opacity|decoration|size|w|h|gap(-[xy])?|border(-[trblxy])?|rounded(-(tl|tr|br|bl|t|r|b|l))?|-?[mp][trblxy]?|-?(inset(-[xy])?|top|right|bottom|left))-/;
+
+export const toTailwind = (
+  input: Record<string, string>,
+  scale: ScaleOptions,
+  scales: ThemeScales,
+  colors: ColorOptions,
+  emit: EmitOptions = { target: "v3", keepVariables: false }
+) => {
+  const tw: string[] = [];
+  const { target } = emit;
+
+  const cssObj = Object.fromEntries(
+    Object.entries(input).map(([prop, value]) => [prop, unmarkCSSValues(value)])
+  );
+  const {
+    fontSizeMap,
+    fontWeightMap,
+    lineHeightMap,
+    letterSpacingMap,
+    spacingScale,
+    radiusScale,
+    palette,
+    fontFamilyMap,
+    shadowMap,
+    spacingStep,
+  } = scales;
+
+  // Kept variable utility (e.g. "bg-(--Surface)" or "bg-[var(--Surface)]")
+  const keptVariableClass = (twKey: string, value: string, hint?: string) => {
+    const name = value.trim().match(/^var\((--[\w-]+)\)$/)?.[1];
+    if (!name || !emit.keepVariables) return null;
+    return variableClass(twKey, name, target, hint);
+  };
+
+  // Dictionary value as a twKey class: a full class for the same utility is
+  // used as-is ("border-gray-400"), one for another utility lends its value
+  // ("border-gray-400" → "text-gray-400") and a bare name is appended
+  // ("mackinac" → "font-mackinac")
+  const dictClass = (twKey: string, value: string) => {
+    if (!value.startsWith("__DICT__")) return null;
+    const dictValue = value.slice("__DICT__".length);
+    if (dictValue.startsWith(`${twKey}-`)) return dictValue;
+    const utility =
+      getClassPropertyType(dictValue, scales) !== null &&
+      dictValue.match(utilityPrefix);
+    return `${twKey}-${utility ? dictValue.slice(utility[0].length) : dictValue}`;
+  };
+
+  // Spacing utility on the spacing scale, supporting negative margins (e.g. "-mt-2")
+  const spacingClass = (twKey: string, value: string) => {
+    const variable =
+      dictClass(twKey, value) ?? keptVariableClass(twKey, value, "length");
+    if (variable) return variable;
+    if (scale.enabled && value === "auto") return `${twKey}-auto`;
+    // Unitless lengths are invalid CSS, so they are scale steps (e.g. a
+    // dictionary value of "4")
+    if (Object.values(spacingScale).includes(value) && value !== "0") {
+      return `${twKey}-${value}`;
+    }
+    const negative = value.trim().startsWith("-");
+    const step = matchScale(
+      negative ? value.trim().slice(1) : value,
+      spacingScale,
+      scale
+    );
+    if (step !== null) return `${negative ? "-" : ""}${twKey}-${step}`;
+    // v4 generates a step for any multiple of the spacing unit (e.g. "p-13")
+    const valuePx = toPx(negative ? value.trim().slice(1) : value);
+    const multiple = valuePx !== null ? (valuePx / spacingStep) * 4 : NaN;
+    if (target === "v4" && scale.enabled && Number.isInteger(multiple)) {
+      return `${negative ? "-" : ""}${twKey}-${multiple / 4}`;
+    }
+    return arbitraryClass(twKey, value, "length");
+  };
+
+  // Color utility: dictionary value, then palette color, then arbitrary hex,
+  // with alpha as an opacity modifier (e.g. "bg-black/50")
+  const colorClass = (twKey: string, value: string) => {
+    const dict = dictClass(twKey, value);
+    if (dict) return dict;
+    const variable = keptVariableClass(twKey, value, "color");
+    if (variable) return variable;
+    const keyword = value.trim().toLowerCase();
+    if (keyword === "currentcolor") return `${twKey}-current`;
+    if (keyword === "inherit") return `${twKey}-inherit`;
+
+    const rgba = parseColor(value);
+    if (!rgba) return arbitraryClass(twKey, value, "color");
+    if (rgba.a === 0) return `${twKey}-transparent`;
+
+    const name = matchColor(rgba, palette, colors);
+    const base = name ? `${twKey}-${name}` : `${twKey}-[${toHex(rgba)}]`;
+    return base + alphaModifier(rgba.a);
+  };
+
+  // Dictionary colors inside an arbitrary value (gradients, shadows) become
+  // theme references (v4 var(--color-gray-400), v3 theme(colors.gray.400))
+  const colorReferences = (value: string) =>
+    value
+      .split(/__DICT__([^\s,)]+)/)
+      .map((part, i) => {
+        // Odd parts are the captured dictionary values
+        if (i % 2 === 0) return part;
+        const utility =
+          getClassPropertyType(part, scales) !== null &&
+          part.match(utilityPrefix);
+        const name = utility ? part.slice(utility[0].length) : part;
+        return target === "v4"
+          ? `var(--color-${name})`
+          : `theme(colors.${name.replace(/-/g, ".")})`;
+      })
+      .join("");
+
+  // Border radius utility on the radius scale (twPrefix e.g. "rounded-tl")
+  const radiusClass = (twPrefix: string, radius: string) => {
+    const variable =
+      dictClass(twPrefix, radius) ?? keptVariableClass(twPrefix, radius);
+    if (variable) return variable;
+    const step = matchScale(radius, radiusScale, scale);
+    // Tailwind v3 default is 4px, so use "rounded" instead of "rounded-[4px]"
+    if (target === "v3" && (radius === "4px" || radius === "0.25rem")) {
+      return twPrefix;
+    }
+    if (step !== null) return step ? `${twPrefix}-${step}` : twPrefix;
+    return arbitraryClass(twPrefix, radius);
+  };
+
+  // Border width utility on the border width scale (twPrefix e.g. "border-t")
+  const borderWidthClass = (twPrefix: string, width: string) => {
+    const variable =
+      dictClass(twPrefix, width) ??
+      keptVariableClass(twPrefix, width, "length");
+    if (variable) return variable;
+    const step = matchScale(width, borderWidthScale, scale);
+    // Tailwind default is 1px, so use just the prefix instead of prefix-[1px]
+    if (width === "1px" || width === "0.0625rem") return twPrefix;
+    if (step !== null) return step ? `${twPrefix}-${step}` : twPrefix;
+    return arbitraryClass(twPrefix, width, "length");
+  };
+
+  // Width/height utility on the spacing scale
+  const sizeClass = (twKey: string, value: string) => {
+    if (scale.enabled && value === "100%") return `${twKey}-full`;
+    return spacingClass(twKey, value);
+  };
+
+  // Text alignment values with a utility
+  const textAlignValues = [
+    "left",
+    "center",
+    "right",
+    "justify",
+    "start",
+    "end",
+  ];
+
+  // Text decoration line mapping
+  const textDecorationLineMap: Record<string, string> = {
+    underline: "underline",
+    overline: "overline",
+    "line-through": "line-through",
+    none: "no-underline",
+  };
+
+  // Text decoration thickness mapping
+  const decorationThicknessMap: Record<string, string> = {
+    "from-font": "from-font",
+    "0px": "0",
+    "1px": "1",
+    thin: "1",
+    "2px": "2",
+    medium: "2",
+    "4px": "4",
+    thick: "4",
+    "8px": "8",
+  };
+
+  // Text decoration style mapping
+  const textDecorationStyleMap: Record<string, string> = {
+    solid: "solid",
+    double: "double",
+    dotted: "dotted",
+    dashed: "dashed",
+    wavy: "wavy",
+  };
+
+  // Display mapping
+  const displayMap: Record<string, string> = {
+    flex: "flex",
+    "inline-flex": "inline-flex",
+    grid: "grid",
+    "inline-grid": "inline-grid",
+    block: "block",
+    "inline-block": "inline-block",
+    inline: "inline",
+    contents: "contents",
+    none: "hidden",
+  };
+
+  // Flex direction mapping
+  const flexDirectionMap: Record<string, string> = {
+    row: "flex-row",
+    "row-reverse": "flex-row-reverse",
+    column: "flex-col",
+    "column-reverse": "flex-col-reverse",
+  };
+
+  // Flex wrap mapping
+  const flexWrapMap: Record<string, string> = {
+    wrap: "flex-wrap",
+    "wrap-reverse": "flex-wrap-reverse",
+    nowrap: "flex-nowrap",
+  };
+
+  // Alignment keyword mapping (shared by justify-content, align-items, align-self, align-content)
+  const alignmentMap: Record<string, string> = {
+    "flex-start": "start",
+    start: "start",
+    "flex-end": "end",
+    end: "end",
+    center: "center",
+    baseline: "baseline",
+    stretch: "stretch",
+    "space-between": "between",
+    "space-around": "around",
+    "space-evenly": "evenly",
+    auto: "auto",
+    normal: "normal",
+  };
+
+  // Flex grow/shrink: 0 and 1 have dedicated classes, v4 accepts any integer,
+  // anything else is arbitrary
+  const flexFactor = (twKey: string, value: string) => {
+    if (value === "1") return twKey;
+    if (value === "0") return `${twKey}-0`;
+    if (target === "v4" && /^\d+$/.test(value)) return `${twKey}-${value}`;
+    return arbitraryClass(twKey, value);
+  };
+
+  // Percentage with a fraction utility (50% → "top-1/2", -100% →
+  // "-translate-x-full")
+  const fractionClass = (twKey: string, value: string) => {
+    const match = value.trim().match(/^(-?)(\d*\.?\d+)%$/);
+    if (!scale.enabled || !match) return null;
+    const percent = Number(match[2]);
+    const fractions = ["1/2", "1/3", "2/3", "1/4", "3/4"];
+    const fraction =
+      percent === 100
+        ? "full"
+        : fractions.find((f) => {
+            const [n, d] = f.split("/").map(Number);
+            return Math.abs((n / d) * 100 - percent) < 0.01;
+          });
+    return fraction ? `${match[1]}${twKey}-${fraction}` : null;
+  };
+
+  // Flex basis: 0 has a dedicated class, auto is the default, other lengths
+  // snap to a fraction or the spacing scale (50% → basis-1/2, 80px → basis-20)
+  const flexBasis = (value: string) => {
+    if (value === "auto" || value === "content") return null;
+    if (value === "0" || value === "0px" || value === "0%") return "basis-0";
+    if (value === "100%") return "basis-full";
+    return fractionClass("basis", value) ?? spacingClass("basis", value);
+  };
+
+  // Text clamping: line-clamp-* sets the display, box orientation and
+  // overflow, truncate the overflow, white-space and text-overflow
+  const lineClamp = cssObj["-webkit-line-clamp"]?.trim();
+  const truncates =
+    !lineClamp &&
+    cssObj["overflow"]?.trim() === "hidden" &&
+    cssObj["text-overflow"]?.trim() === "ellipsis" &&
+    cssObj["white-space"]?.trim() === "nowrap";
+
+  // ---------- LAYOUT ----------
+  if (
+    cssObj["display"] &&
+    !(lineClamp && cssObj["display"] === "-webkit-box")
+  ) {
+    const display = cssObj["display"];
+    tw.push(displayMap[display] ?? arbitraryProperty("display", display));
+  }
+  // Overflow (visible is the default)
+  for (const [property, twKey] of [
+    ["overflow", "overflow"],
+    ["overflow-x", "overflow-x"],
+    ["overflow-y", "overflow-y"],
+  ]) {
+    const overflow = cssObj[property]?.trim();
+    if (!overflow || overflow === "visible") continue;
+    if (property === "overflow" && (lineClamp || truncates)) continue;
+    tw.push(
+      ["hidden", "clip", "scroll", "auto"].includes(overflow)
+        ? `${twKey}-${overflow}`
+        : arbitraryProperty(property, overflow)
+    );
+  }
+  if (cssObj["flex-direction"]) {
+    const direction = flexDirectionMap[cssObj["flex-direction"]];
+    // row is the default direction, so flex-row is only useful to override a flex-col
+    if (direction && direction !== "flex-row") tw.push(direction);
+  }
+  if (cssObj["flex-wrap"]) {
+    const wrap = flexWrapMap[cssObj["flex-wrap"]];
+    // nowrap is the default
+    if (wrap && wrap !== "flex-nowrap") tw.push(wrap);
+  }
+  if (cssObj["justify-content"]) {
+    const justify = alignmentMap[cssObj["justify-content"]];
+    if (justify && justify !== "auto") tw.push(`justify-${justify}`);
+  }
+  if (cssObj["align-items"]) {
+    const items = alignmentMap[cssObj["align-items"]];
+    if (items && !["between", "around", "evenly", "auto"].includes(items)) {
+      tw.push(`items-${items}`);
+    }
+  }
+  if (cssObj["align-content"]) {
+    const content = alignmentMap[cssObj["align-content"]];
+    if (content && content !== "auto") tw.push(`content-${content}`);
+  }
+  if (cssObj["align-self"]) {
+    const self = alignmentMap[cssObj["align-self"]];
+    if (self && !["between", "around", "evenly", "normal"].includes(self)) {
+      tw.push(`self-${self}`);
+    }
+  }
+  if (cssObj["gap"]) {
+    // gap: <row> <column>
+    const [rowGap, columnGap = rowGap] = splitValues(cssObj["gap"]);
+    if (rowGap === columnGap) {
+      tw.push(spacingClass("gap", rowGap));
+    } else {
+      tw.push(spacingClass("gap-y", rowGap), spacingClass("gap-x", columnGap));
+    }
+  }
+  if (cssObj["row-gap"]) tw.push(spacingClass("gap-y", cssObj["row-gap"]));
+  if (cssObj["column-gap"]) {
+    tw.push(spacingClass("gap-x", cssObj["column-gap"]));
+  }
+
+  // Flex shorthand (Figma emits e.g. "flex: 1 0 0" for fill-container children)
+  if (cssObj["flex"]) {
+    const flex = cssObj["flex"].trim();
+    const parsed = parseFlex(flex);
+    if (["none", "auto", "initial"].includes(flex)) {
+      tw.push(`flex-${flex}`);
+    } else if (!parsed) {
+      tw.push(arbitraryProperty("flex", flex));
+    } else {
+      const [grow, shrink, basis] = parsed;
+      if (grow !== "0") tw.push(flexFactor("grow", grow));
+      if (shrink !== "1") tw.push(flexFactor("shrink", shrink));
+      const basisClass = flexBasis(basis);
+      if (basisClass) tw.push(basisClass);
+    }
+  }
+  if (cssObj["flex-grow"]) tw.push(flexFactor("grow", cssObj["flex-grow"]));
+  if (cssObj["flex-shrink"]) {
+    tw.push(flexFactor("shrink", cssObj["flex-shrink"]));
+  }
+  if (cssObj["flex-basis"]) {
+    const basisClass = flexBasis(cssObj["flex-basis"]);
+    if (basisClass) tw.push(basisClass);
+  }
+
+  // ---------- TEXT ----------
+  if (cssObj["color"]) tw.push(colorClass("text", cssObj["color"]));
+  if (cssObj["text-align"]) {
+    const align = cssObj["text-align"];
+    tw.push(
+      textAlignValues.includes(align)
+        ? `text-${align}`
+        : arbitraryProperty("text-align", align)
+    );
+  }
+
+  // Text decoration (each utility sets a single line, so several lines like
+  // "underline overline" need an arbitrary property)
+  if (cssObj["text-decoration-line"]) {
+    const line = textDecorationLineMap[cssObj["text-decoration-line"].trim()];
+    if (line) {
+      tw.push(line);
+    } else {
+      tw.push(
+        arbitraryProperty(
+          "text-decoration-line",
+          cssObj["text-decoration-line"]
+        )
+      );
+    }
+  }
+  if (cssObj["text-decoration-style"]) {
+    const style = cssObj["text-decoration-style"];
+    if (style !== "solid") {
+      // solid is default, so we only add classes for other styles
+      const mappedStyle = textDecorationStyleMap[style];
+      if (mappedStyle) {
+        tw.push(`decoration-${mappedStyle}`);
+      } else {
+        tw.push(arbitraryProperty("text-decoration-style", style));
+      }
+    }
+  }
+  if (cssObj["text-decoration-skip-ink"]) {
+    // Tailwind has no skip-ink utility, and auto is the default
+    const skipInk = cssObj["text-decoration-skip-ink"];
+    if (skipInk !== "auto") {
+      tw.push(arbitraryProperty("text-decoration-skip-ink", skipInk));
+    }
+  }
+  if (cssObj["text-decoration-thickness"]) {
+    const thickness = cssObj["text-decoration-thickness"];
+    if (thickness !== "auto") {
+      // Try to map common values first
+      const mappedThickness =
+        decorationThicknessMap[thickness] ??
+        decorationThicknessMap[`${toPx(thickness)}px`];
+      if (mappedThickness) {
+        tw.push(`decoration-${mappedThickness}`);
+      } else {
+        tw.push(arbitraryClass("decoration", thickness, "length"));
+      }
+    }
+  }
+  if (cssObj["text-underline-offset"]) {
+    const offset = cssObj["text-underline-offset"];
+    if (offset !== "auto") {
+      const offsetPx = toPx(offset);
+      if (offsetPx !== null && [0, 1, 2, 4, 8].includes(offsetPx)) {
+        tw.push(`underline-offset-${offsetPx}`);
+      } else {
+        tw.push(arbitraryClass("underline-offset", offset));
+      }
+    }
+  }
+  if (cssObj["text-underline-position"]) {
+    const position = cssObj["text-underline-position"];
+    // Tailwind doesn't have a utility for text-underline-position, and
+    // "auto"/"from-font" are usually the default
+    if (position !== "auto" && position !== "from-font") {
+      tw.push(arbitraryProperty("text-underline-position", position));
+    }
+  }
+
+  // ---------- FONT ----------
+  const fontSizeVariable =
+    cssObj["font-size"] &&
+    (dictClass("text", cssObj["font-size"]) ??
+      keptVariableClass("text", cssObj["font-size"], "length"));
+  if (fontSizeVariable) {
+    tw.push(fontSizeVariable);
+  } else if (cssObj["font-size"]) {
+    const size = cssObj["font-size"];
+    const mappedSize =
+      fontSizeMap[size.replace("px", "")] ??
+      matchScale(size, fontSizeMap, scale);
+    if (mappedSize) {
+      tw.push(`text-${mappedSize}`);
+    } else {
+      tw.push(arbitraryClass("text", size, "length"));
+    }
+  }
+  if (cssObj["font-weight"]) {
+    const weight = cssObj["font-weight"];
+    const mappedWeight = fontWeightMap[weight];
+    const variable =
+      dictClass("font", weight) ?? keptVariableClass("font", weight, "number");
+    if (variable) {
+      tw.push(variable);
+    } else if (mappedWeight) {
+      tw.push(`font-${mappedWeight}`);
+    } else {
+      tw.push(arbitraryClass("font", weight, "number"));
+    }
+  }
+  // Line height as a named ratio of the font size (150% → leading-normal) or a
+  // spacing step (24px → leading-6); lengths try the step first, ratios and
+  // percentages the named ratio
+  const resolvedLeading = (leading: string) => {
+    const fontSizePx = cssObj["font-size"] ? toPx(cssObj["font-size"]) : null;
+    const length = toPx(leading);
+    const isRatio = length === null && /^\d*\.?\d+%?$/.test(leading);
+    const ratio = isRatio
+      ? parseFloat(leading) / (leading.endsWith("%") ? 100 : 1)
+      : fontSizePx && length !== null
+        ? length / fontSizePx
+        : null;
+    // Rounded so Figma's 133.33% of 12px still lands on 16px
+    const leadingPx =
+      isRatio && ratio !== null && fontSizePx
+        ? Math.round(ratio * fontSizePx * 100) / 100
+        : length;
+
+    const ratioClass = () => {
+      if (ratio === null) return null;
+      const named = Object.entries(lineHeightMap).find(
+        ([value]) => Math.abs(Number(value) - ratio) < 0.005
+      );
+      return named ? `leading-${named[1]}` : null;
+    };
+    const stepClass = () => {
+      if (leadingPx === null) return null;
+      // v3 has leading-3 to leading-10, v4 any spacing step
+      if (target === "v4") {
+        const multiple = (leadingPx / spacingStep) * 4;
+        return scale.enabled && Number.isInteger(multiple)
+          ? `leading-${multiple / 4}`
+          : null;
+      }
+      const steps = Object.fromEntries(
+        Object.entries(spacingScale).filter(([, step]) =>
+          /^([3-9]|10)$/.test(step)
+        )
+      );
+      const step = matchScale(`${leadingPx}px`, steps, scale);
+      return step ? `leading-${step}` : null;
+    };
+    return isRatio
+      ? (ratioClass() ?? stepClass())
+      : (stepClass() ?? ratioClass());
+  };
+
+  if (cssObj["line-height"]) {
+    const leading = cssObj["line-height"].trim();
+    const mappedLeading = lineHeightMap[leading];
+    const variable =
+      dictClass("leading", leading) ?? keptVariableClass("leading", leading);
+    if (variable) {
+      tw.push(variable);
+    } else if (mappedLeading) {
+      tw.push(`leading-${mappedLeading}`);
+    } else {
+      tw.push(resolvedLeading(leading) ?? arbitraryClass("leading", leading));
+    }
+  }
+  if (cssObj["letter-spacing"]) {
+    const tracking = cssObj["letter-spacing"];
+    const mappedTracking = letterSpacingMap[tracking];
+    const variable =
+      dictClass("tracking", tracking) ??
+      keptVariableClass("tracking", tracking);
+    if (variable) {
+      tw.push(variable);
+    } else if (mappedTracking) {
+      tw.push(`tracking-${mappedTracking}`);
+    } else {
+      // Handle px values and other units
+      tw.push(arbitraryClass("tracking", tracking));
+    }
+  }
+  if (cssObj["font-family"]) {
+    const variable = keptVariableClass(
+      "font",
+      cssObj["font-family"],
+      "family-name"
+    );
+    if (variable) {
+      tw.push(variable);
+    } else if (cssObj["font-family"].startsWith("__DICT__")) {
+      // Dictionary-mapped value
+      const dictValue = cssObj["font-family"].replace("__DICT__", "");
+      // If dictionary value already starts with "font-", use it as-is
+      if (dictValue.startsWith("font-")) {
+        tw.push(dictValue);
+      } else {
+        tw.push(`font-${dictValue}`);
+      }
+    } else {
+      const themeFont =
+        fontFamilyMap[normalizeFontFamily(cssObj["font-family"])];
+      tw.push(
+        themeFont
+          ? `font-${themeFont}`
+          : arbitraryClass("font", cssObj["font-family"], "family-name")
+      );
+    }
+  }
+  if (cssObj["font-style"]) {
+    const style = cssObj["font-style"];
+    if (style === "italic") {
+      tw.push("italic");
+    } else if (style === "normal") {
+      tw.push("not-italic");
+    } else {
+      // oblique has no utility
+      tw.push(arbitraryProperty("font-style", style));
+    }
+  }
+
+  // ---------- TEXT LAYOUT ----------
+  // Text transform mapping
+  const textTransformMap: Record<string, string> = {
+    uppercase: "uppercase",
+    lowercase: "lowercase",
+    capitalize: "capitalize",
+    none: "normal-case",
+  };
+
+  // Numeric variants with a utility (each sets one part, so they combine)
+  const numericVariants = [
+    "ordinal",
+    "slashed-zero",
+    "lining-nums",
+    "oldstyle-nums",
+    "proportional-nums",
+    "tabular-nums",
+    "diagonal-fractions",
+    "stacked-fractions",
+  ];
+
+  // White-space values with a utility
+  const whiteSpaceValues = [
+    "normal",
+    "nowrap",
+    "pre",
+    "pre-line",
+    "pre-wrap",
+    "break-spaces",
+  ];
+
+  if (cssObj["text-transform"]) {
+    const transform = cssObj["text-transform"].trim();
+    tw.push(
+      textTransformMap[transform] ??
+        arbitraryProperty("text-transform", transform)
+    );
+  }
+  if (lineClamp) {
+    // v3 has line-clamp-1 to line-clamp-6, v4 any integer
+    const hasStep =
+      /^\d+$/.test(lineClamp) &&
+      (target === "v4" || (Number(lineClamp) >= 1 && Number(lineClamp) <= 6));
+    tw.push(
+      lineClamp === "none"
+        ? "line-clamp-none"
+        : hasStep
+          ? `line-clamp-${lineClamp}`
+          : arbitraryClass("line-clamp", lineClamp)
+    );
+    const orient = cssObj["-webkit-box-orient"]?.trim();
+    if (orient && orient !== "vertical") {
+      tw.push(arbitraryProperty("-webkit-box-orient", orient));
+    }
+  } else if (cssObj["-webkit-box-orient"]) {
+    tw.push(
+      arbitraryProperty("-webkit-box-orient", cssObj["-webkit-box-orient"])
+    );
+  }
+  if (truncates) {
+    tw.push("truncate");
+  } else {
+    const whiteSpace = cssObj["white-space"]?.trim();
+    // normal is the default
+    if (whiteSpace && whiteSpace !== "normal") {
+      tw.push(
+        whiteSpaceValues.includes(whiteSpace)
+          ? `whitespace-${whiteSpace}`
+          : arbitraryProperty("white-space", whiteSpace)
+      );
+    }
+    const textOverflow = cssObj["text-overflow"]?.trim();
+    // clip is the default
+    if (textOverflow && textOverflow !== "clip") {
+      tw.push(
+        textOverflow === "ellipsis"
+          ? "text-ellipsis"
+          : arbitraryProperty("text-overflow", textOverflow)
+      );
+    }
+  }
+  if (cssObj["font-variant-numeric"]) {
+    const numeric = cssObj["font-variant-numeric"].trim();
+    const values = numeric.split(/\s+/);
+    // normal is the default
+    if (numeric !== "normal") {
+      tw.push(
+        ...(values.every((value) => numericVariants.includes(value))
+          ? values
+          : [arbitraryProperty("font-variant-numeric", numeric)])
+      );
+    }
+  }
+  if (cssObj["font-feature-settings"]) {
+    const features = cssObj["font-feature-settings"].trim();
+    // normal is the default, and there's no utility for the others
+    if (features !== "normal") {
+      tw.push(arbitraryProperty("font-feature-settings", features));
+    }
+  }
+  if (cssObj["text-indent"]) {
+    tw.push(spacingClass("indent", cssObj["text-indent"].trim()));
+  }
+  if (cssObj["word-break"]) {
+    const wordBreak = cssObj["word-break"].trim();
+    // break-word is a legacy alias that wraps like overflow-wrap: break-word
+    const wordBreakMap: Record<string, string> = {
+      "break-all": "break-all",
+      "keep-all": "break-keep",
+      "break-word": "break-words",
+    };
+    if (wordBreak !== "normal") {
+      tw.push(
+        wordBreakMap[wordBreak] ?? arbitraryProperty("word-break", wordBreak)
+      );
+    }
+  }
+  if (cssObj["overflow-wrap"]) {
+    const wrap = cssObj["overflow-wrap"].trim();
+    if (wrap === "break-word") {
+      tw.push("break-words");
+    } else if (wrap === "anywhere") {
+      tw.push(
+        target === "v4"
+          ? "wrap-anywhere"
+          : arbitraryProperty("overflow-wrap", wrap)
+      );
+    } else if (wrap !== "normal") {
+      tw.push(arbitraryProperty("overflow-wrap", wrap));
+    }
+  }
+  // Leading trim has no utility yet (Figma exports both the draft
+  // leading-trim and the standard text-box-trim)
+  for (const property of [
+    "leading-trim",
+    "text-edge",
+    "text-box-trim",
+    "text-box-edge",
+  ]) {
+    const value = cssObj[property]?.trim();
+    if (value && value !== "none" && value !== "normal") {
+      tw.push(arbitraryProperty(property, value));
+    }
+  }
+
+  // ---------- SPACING ----------
+  // Shorthands expand to all sides, axes (mx/py) or single sides
+  const spacingShorthandMap = {
+    margin: "m",
+    padding: "p",
+  };
+  Object.entries(spacingShorthandMap).forEach(([prop, twKey]) => {
+    if (!cssObj[prop]) return;
+    const box = expandBox(cssObj[prop]);
+    if (!box) {
+      tw.push(arbitraryClass(twKey, cssObj[prop]));
+      return;
+    }
+    for (const [side, value] of boxSides(box)) {
+      tw.push(spacingClass(`${twKey}${side}`, value));
+    }
+  });
+
+  const spacingMap = {
+    "margin-top": "mt",
+    "margin-bottom": "mb",
+    "margin-left": "ml",
+    "margin-right": "mr",
+    "padding-top": "pt",
+    "padding-bottom": "pb",
+    "padding-left": "pl",
+    "padding-right": "pr",
+  };
+  Object.entries(spacingMap).forEach(([prop, twKey]) => {
+    if (cssObj[prop]) tw.push(spacingClass(twKey, cssObj[prop]));
+  });
+
+  // ---------- POSITION ----------
+  // Position mapping
+  const positionMap: Record<string, string> = {
+    static: "static",
+    relative: "relative",
+    absolute: "absolute",
+    fixed: "fixed",
+    sticky: "sticky",
+  };
+
+  // Offset utility (top, inset-x, ...): a fraction, then the spacing scale
+  const insetClass = (twKey: string, value: string) =>
+    fractionClass(twKey, value) ?? spacingClass(twKey, value);
+
+  if (cssObj["position"]) {
+    const position = cssObj["position"].trim();
+    // static is the default
+    if (position !== "static") {
+      tw.push(positionMap[position] ?? arbitraryProperty("position", position));
+    }
+  }
+  if (cssObj["inset"]) {
+    const box = expandBox(cssObj["inset"]);
+    const insetKeys: Record<string, string> = {
+      "": "inset",
+      x: "inset-x",
+      y: "inset-y",
+      t: "top",
+      r: "right",
+      b: "bottom",
+      l: "left",
+    };
+    if (box) {
+      for (const [side, value] of boxSides(box)) {
+        tw.push(insetClass(insetKeys[side], value));
+      }
+    }
+  }
+  for (const side of ["top", "right", "bottom", "left"]) {
+    if (cssObj[side]) tw.push(insetClass(side, cssObj[side]));
+  }
+  if (cssObj["z-index"]) {
+    // v3 has steps of 10 up to 50, v4 any integer
+    const zIndex = cssObj["z-index"].trim();
+    const negative = zIndex.startsWith("-") ? "-" : "";
+    const level = zIndex.replace(/^-/, "");
+    const hasStep =
+      /^\d+$/.test(level) &&
+      (target === "v4" || ["0", "10", "20", "30", "40", "50"].includes(level));
+    tw.push(
+      dictClass("z", zIndex) ??
+        keptVariableClass("z", zIndex) ??
+        (zIndex === "auto"
+          ? "z-auto"
+          : hasStep
+            ? `${negative}z-${level}`
+            : arbitraryClass("z", zIndex))
+    );
+  }
+
+  // ---------- SIZE ----------
+  if (cssObj["width"]) tw.push(sizeClass("w", cssObj["width"]));
+  if (cssObj["height"]) tw.push(sizeClass("h", cssObj["height"]));
+
+  // ---------- BORDER RADIUS ----------
+  if (cssObj["border-radius"]) {
+    const radius = cssObj["border-radius"];
+    const corners = radius.includes("/") ? null : expandBox(radius);
+    if (corners) {
+      for (const [side, value] of cornerSides(corners)) {
+        tw.push(radiusClass(side ? `rounded-${side}` : "rounded", value));
+      }
+    } else {
+      // Elliptical radii ("10px / 20px") have no utility
+      tw.push(arbitraryClass("rounded", radius));
+    }
+  }
+  const radiusCornerMap = {
+    "border-top-left-radius": "rounded-tl",
+    "border-top-right-radius": "rounded-tr",
+    "border-bottom-right-radius": "rounded-br",
+    "border-bottom-left-radius": "rounded-bl",
+  };
+  Object.entries(radiusCornerMap).forEach(([prop, twPrefix]) => {
+    if (cssObj[prop]) tw.push(radiusClass(twPrefix, cssObj[prop]));
+  });
+
+  // ---------- BORDER ----------
+  // Border style utility (a single style applies to every side)
+  const borderStyleClass = (style: string) =>
+    ["solid", "dashed", "dotted", "double", "hidden", "none"].includes(style)
+      ? `border-${style}`
+      : arbitraryProperty("border-style", style);
+
+  const borderSideMap: Record<string, string> = {
+    border: "border",
+    "border-top": "border-t",
+    "border-bottom": "border-b",
+    "border-left": "border-l",
+    "border-right": "border-r",
+  };
+
+  // Track border styles to avoid duplicates (Tailwind applies style to all sides)
+  const borderStyles = new Set<string>();
+
+  Object.entries(borderSideMap).forEach(([prop, twPrefix]) => {
+    if (cssObj[prop]) {
+      // Parse border: width style color (e.g., "0.5px solid #ABABAB", "none")
+      const { width, style, color } = parseBorder(cssObj[prop]);
+
+      // A side without a border gets a zero width, since border-none would
+      // remove every side
+      if (prop !== "border" && (style === "none" || style === "hidden")) {
+        tw.push(`${twPrefix}-0`);
+        return;
+      }
+
+      if (width && width !== "0" && width !== "0px") {
+        tw.push(borderWidthClass(twPrefix, width));
+      }
+
+      // Border style (applies to all sides in Tailwind)
+      if (style && !borderStyles.has(style)) {
+        tw.push(borderStyleClass(style));
+        borderStyles.add(style);
+      }
+
+      if (color && color !== "transparent") {
+        tw.push(colorClass(twPrefix, color));
+      }
+    }
+  });
+
+  // Border width/color shorthands expand to all sides, axes or single sides
+  if (cssObj["border-width"]) {
+    const box = expandBox(cssObj["border-width"]);
+    if (box) {
+      for (const [side, width] of boxSides(box)) {
+        tw.push(borderWidthClass(side ? `border-${side}` : "border", width));
+      }
+    }
+  }
+  if (cssObj["border-color"]) {
+    const box = expandBox(cssObj["border-color"]);
+    if (box) {
+      for (const [side, color] of boxSides(box)) {
+        tw.push(colorClass(side ? `border-${side}` : "border", color));
+      }
+    }
+  }
+  const borderLonghandMap = {
+    top: "border-t",
+    right: "border-r",
+    bottom: "border-b",
+    left: "border-l",
+  };
+  Object.entries(borderLonghandMap).forEach(([side, twPrefix]) => {
+    const width = cssObj[`border-${side}-width`];
+    const color = cssObj[`border-${side}-color`];
+    if (width) tw.push(borderWidthClass(twPrefix, width));
+    if (color) tw.push(colorClass(twPrefix, color));
+  });
+  if (cssObj["border-style"] && !borderStyles.has(cssObj["border-style"])) {
+    tw.push(borderStyleClass(cssObj["border-style"]));
+  }
+
+  // ---------- BACKGROUND ----------
+  // Gradient stop color; a transparent stop keeps its hue (white/0, not
+  // transparent black)
+  const stopColorClass = (twKey: string, color: string) => {
+    const rgba = parseColor(color);
+    if (rgba && rgba.a === 0) {
+      return `${colorClass(twKey, toHex(rgba)).replace(/\/.*$/, "")}/0`;
+    }
+    return colorClass(twKey, color);
+  };
+
+  // Linear gradient as direction and from/via/to utilities (null when it
+  // needs an arbitrary value)
+  const gradientClasses = (image: string): string[] | null => {
+    const gradient = parseLinearGradient(image);
+    if (!gradient || gradient.stops.length > 3) return null;
+    const sideKeys: Record<string, string> = {
+      "0": "t",
+      "90": "r",
+      "180": "b",
+      "270": "l",
+      tr: "tr",
+      br: "br",
+      bl: "bl",
+      tl: "tl",
+    };
+    const utility = target === "v4" ? "bg-linear" : "bg-gradient";
+    const side = sideKeys[gradient.direction];
+    let direction: string;
+    if (side) {
+      direction = `${utility}-to-${side}`;
+    } else if (target === "v4" && /^\d+$/.test(gradient.direction)) {
+      // v4 takes any angle (bg-linear-45)
+      direction = `bg-linear-${gradient.direction}`;
+    } else {
+      return null;
+    }
+
+    // Stops sit at 0%/100% (and 50% for via) unless positioned
+    const keys =
+      gradient.stops.length === 3 ? ["from", "via", "to"] : ["from", "to"];
+    const defaults = gradient.stops.length === 3 ? [0, 50, 100] : [0, 100];
+    const classes = [direction];
+    for (const [i, { color, position }] of gradient.stops.entries()) {
+      classes.push(stopColorClass(keys[i], color));
+      if (position === null) continue;
+      const percent = position.endsWith("%")
+        ? parseFloat(position)
+        : toPx(position) === 0
+          ? 0
+          : null;
+      if (percent === null) return null;
+      if (percent === defaults[i]) continue;
+      // v3 has steps of 5%, v4 any whole percentage
+      const hasStep =
+        Number.isInteger(percent) &&
+        percent >= 0 &&
+        percent <= 100 &&
+        (target === "v4" || percent % 5 === 0);
+      classes.push(
+        hasStep ? `${keys[i]}-${percent}%` : `${keys[i]}-[${percent}%]`
+      );
+    }
+    return classes;
+  };
+
+  // Image layers: bg-none, a gradient, or an arbitrary image (list)
+  const backgroundImageClasses = (images: string[]): string[] => {
+    if (images.length === 0) return [];
+    if (images.length === 1 && images[0].toLowerCase() === "none") {
+      return ["bg-none"];
+    }
+    if (images.length === 1) {
+      return (
+        gradientClasses(images[0]) ?? [
+          arbitraryClass("bg", colorReferences(images[0])),
+        ]
+      );
+    }
+    return [
+      `bg-[image:${escapeArbitrary(images.map(colorReferences).join(", "))}]`,
+    ];
+  };
+
+  // Background position as a keyword utility (v4 renamed bg-left-top to
+  // bg-top-left), or an arbitrary property
+  const backgroundPositionClass = (position: string) => {
+    const keywords = positionKeywords(position);
+    if (!keywords) return arbitraryProperty("background-position", position);
+    const { x, y } = keywords;
+    if (x === "center") return `bg-${y}`;
+    if (y === "center") return `bg-${x}`;
+    return target === "v4" ? `bg-${y}-${x}` : `bg-${x}-${y}`;
+  };
+
+  const backgroundSizeClass = (size: string) =>
+    ["cover", "contain", "auto"].includes(size)
+      ? `bg-${size}`
+      : arbitraryProperty("background-size", size);
+
+  // Background repeat mapping
+  const backgroundRepeatMap: Record<string, string> = {
+    repeat: "bg-repeat",
+    "no-repeat": "bg-no-repeat",
+    "repeat-x": "bg-repeat-x",
+    "repeat-y": "bg-repeat-y",
+    space: "bg-repeat-space",
+    round: "bg-repeat-round",
+  };
+
+  // Background shorthand (Figma exports gradients and image fills as layers,
+  // with the solid fill as the final layer's color)
+  if (cssObj["background"]) {
+    const layers = parseBackground(cssObj["background"]);
+    if (!layers) {
+      tw.push(
+        arbitraryProperty("background", colorReferences(cssObj["background"]))
+      );
+    } else {
+      tw.push(...backgroundImageClasses(layers.images));
+      if (layers.color) tw.push(colorClass("bg", layers.color));
+      if (layers.position) tw.push(backgroundPositionClass(layers.position));
+      // auto, repeat and scroll are the defaults
+      if (layers.size && layers.size !== "auto") {
+        tw.push(backgroundSizeClass(layers.size));
+      }
+      if (layers.repeat && layers.repeat !== "repeat") {
+        tw.push(backgroundRepeatMap[layers.repeat]);
+      }
+      if (layers.attachment && layers.attachment !== "scroll") {
+        tw.push(`bg-${layers.attachment}`);
+      }
+    }
+  }
+  if (cssObj["background-color"]) {
+    tw.push(colorClass("bg", cssObj["background-color"]));
+  }
+  if (cssObj["background-image"]) {
+    tw.push(...backgroundImageClasses(splitCommas(cssObj["background-image"])));
+  }
+  if (cssObj["background-position"]) {
+    const position = cssObj["background-position"];
+    tw.push(
+      position.includes(",")
+        ? arbitraryProperty("background-position", position)
+        : backgroundPositionClass(position)
+    );
+  }
+  if (cssObj["background-size"]) {
+    const size = cssObj["background-size"].trim();
+    if (size !== "auto") tw.push(backgroundSizeClass(size));
+  }
+  if (cssObj["background-repeat"]) {
+    const repeat = cssObj["background-repeat"].trim();
+    if (repeat !== "repeat") {
+      tw.push(
+        backgroundRepeatMap[repeat] ??
+          arbitraryProperty("background-repeat", repeat)
+      );
+    }
+  }
+  if (cssObj["opacity"]) {
+    // v3 has steps of 5%, v4 any whole percentage
+    const opacity = cssObj["opacity"].trim();
+    const percent = opacity.endsWith("%")
+      ? parseFloat(opacity)
+      : parseFloat(opacity) * 100;
+    const hasStep =
+      Number.isInteger(percent) &&
+      percent >= 0 &&
+      percent <= 100 &&
+      (target === "v4" || percent % 5 === 0);
+    tw.push(
+      dictClass("opacity", opacity) ??
+        keptVariableClass("opacity", opacity) ??
+        (hasStep ? `opacity-${percent}` : arbitraryClass("opacity", opacity))
+    );
+  }
+
+  // ---------- EFFECTS ----------
+  // Shadow presets by comparable value; theme shadows replace the preset of
+  // the same name (a theme --shadow-md is no longer the default md), and v4
+  // has inset-shadow-sm for the deprecated shadow-inner
+  const themeShadowNames = Object.values(shadowMap);
+  const shadowNames = Object.fromEntries(
+    [
+      ...Object.entries(scales.shadowPresets).filter(
+        ([, name]) =>
+          !themeShadowNames.includes(name) &&
+          !(target === "v4" && name === "inner")
+      ),
+      ...Object.entries(shadowMap),
+    ].map(([value, name]) => [shadowKey(value), name])
+  );
+  const insetShadowNames = Object.fromEntries(
+    Object.entries(defaultInsetShadowScale).map(([value, name]) => [
+      shadowKey(value),
+      name,
+    ])
+  );
+  const dropShadowNames = Object.fromEntries(
+    Object.entries(
+      target === "v4" ? defaultDropShadowScaleV4 : defaultDropShadowScale
+    ).map(([value, name]) => [shadowKey(value), name])
+  );
+  const blurScale = target === "v4" ? defaultBlurScaleV4 : defaultBlurScale;
+
+  // Filter functions in the order Tailwind applies them
+  const filterOrder = [
+    "blur",
+    "brightness",
+    "contrast",
+    "grayscale",
+    "hue-rotate",
+    "invert",
+    "saturate",
+    "sepia",
+    "drop-shadow",
+  ];
+  const backdropFilterOrder = [
+    "blur",
+    "brightness",
+    "contrast",
+    "grayscale",
+    "hue-rotate",
+    "invert",
+    "opacity",
+    "saturate",
+    "sepia",
+  ];
+
+  // Filter amount steps in v3 (v4 takes any whole percentage)
+  const filterSteps: Record<string, number[]> = {
+    brightness: [0, 50, 75, 90, 95, 100, 105, 110, 125, 150, 200],
+    contrast: [0, 50, 75, 100, 125, 150, 200],
+    saturate: [0, 50, 100, 150, 200],
+    opacity: Array.from({ length: 21 }, (_, i) => i * 5),
+    "hue-rotate": [0, 15, 30, 60, 90, 180],
+  };
+
+  // Blend modes with a utility
+  const blendModes = [
+    "normal",
+    "multiply",
+    "screen",
+    "overlay",
+    "darken",
+    "lighten",
+    "color-dodge",
+    "color-burn",
+    "hard-light",
+    "soft-light",
+    "difference",
+    "exclusion",
+    "hue",
+    "saturation",
+    "color",
+    "luminosity",
+    "plus-darker",
+    "plus-lighter",
+  ];
+
+  // One filter function as a utility (twKey e.g. "blur", "backdrop-blur")
+  const filterClass = (twKey: string, kind: string, amount: string) => {
+    if (kind === "blur") {
+      const step = matchScale(amount, blurScale, scale);
+      if (step !== null) return step ? `${twKey}-${step}` : twKey;
+      return arbitraryClass(twKey, amount);
+    }
+    if (kind === "hue-rotate") {
+      const match = amount.trim().match(/^(-?)(\d+)deg$/);
+      const hasStep =
+        match &&
+        (target === "v4" || filterSteps[kind].includes(Number(match[2])));
+      return hasStep
+        ? `${match[1]}${twKey}-${match[2]}`
+        : arbitraryClass(twKey, amount);
+    }
+    // Amounts are numbers or percentages (0.5 and 50% are the same)
+    const number = amount.trim().endsWith("%")
+      ? parseFloat(amount)
+      : Number(amount) * 100;
+    const percent = Math.round(number * 1e4) / 1e4;
+    if (!/^\d*\.?\d+%?$/.test(amount.trim()) || !Number.isInteger(percent)) {
+      return arbitraryClass(twKey, amount);
+    }
+    // grayscale, invert and sepia are on (100%) or off (0) in v3
+    if (["grayscale", "invert", "sepia"].includes(kind)) {
+      if (percent === 100) return twKey;
+      if (percent === 0 || target === "v4") return `${twKey}-${percent}`;
+      return arbitraryClass(twKey, amount);
+    }
+    return target === "v4" || filterSteps[kind].includes(percent)
+      ? `${twKey}-${percent}`
+      : arbitraryClass(twKey, amount);
+  };
+
+  // drop-shadow() functions as a preset, or an arbitrary value (v3 takes a
+  // single shadow)
+  const dropShadowClass = (shadows: string[]) => {
+    const name = dropShadowNames[shadowKey(shadows.join(", "))];
+    if (name !== undefined) return name ? `drop-shadow-${name}` : "drop-shadow";
+    if (shadows.length > 1 && target === "v3") return null;
+    return arbitraryClass("drop-shadow", colorReferences(shadows.join(", ")));
+  };
+
+  // Filter as utilities (null when the functions come in another order or
+  // have no utility)
+  const filterClasses = (value: string, backdrop: boolean) => {
+    const functions = parseFunctions(value);
+    if (!functions) return null;
+    const order = backdrop ? backdropFilterOrder : filterOrder;
+    const classes: string[] = [];
+    const dropShadows: string[] = [];
+    let last = -1;
+    for (const { name, args } of functions) {
+      const kind = name.toLowerCase();
+      const index = order.indexOf(kind);
+      if (index === -1 || args.length !== 1) return null;
+      // Several drop shadows make up one drop-shadow utility
+      if (kind === "drop-shadow") {
+        dropShadows.push(args[0]);
+        last = index;
+        continue;
+      }
+      if (index <= last) return null;
+      last = index;
+      classes.push(
+        filterClass(backdrop ? `backdrop-${kind}` : kind, kind, args[0])
+      );
+    }
+    if (dropShadows.length > 0) {
+      const dropShadow = dropShadowClass(dropShadows);
+      if (!dropShadow) return null;
+      classes.push(dropShadow);
+    }
+    return classes;
+  };
+
+  if (cssObj["box-shadow"]) {
+    const shadow = cssObj["box-shadow"];
+    const name = shadowNames[shadowKey(shadow)];
+    const insetName =
+      target === "v4" ? insetShadowNames[shadowKey(shadow)] : undefined;
+    tw.push(
+      dictClass("shadow", shadow) ??
+        keptVariableClass("shadow", shadow, "shadow") ??
+        (name !== undefined
+          ? name
+            ? `shadow-${name}`
+            : "shadow"
+          : insetName
+            ? `inset-shadow-${insetName}`
+            : arbitraryClass("shadow", colorReferences(shadow), "shadow"))
+    );
+  }
+  for (const [property, backdrop] of [
+    ["filter", false],
+    ["backdrop-filter", true],
+  ] as const) {
+    if (!cssObj[property]) continue;
+    const filter = cssObj[property].trim();
+    if (filter === "none") {
+      tw.push(`${property}-none`);
+    } else {
+      tw.push(
+        ...(filterClasses(filter, backdrop) ?? [
+          arbitraryProperty(property, colorReferences(filter)),
+        ])
+      );
+    }
+  }
+  // Blend modes (normal is the default)
+  for (const [property, twKey] of [
+    ["mix-blend-mode", "mix-blend"],
+    ["background-blend-mode", "bg-blend"],
+  ]) {
+    const mode = cssObj[property]?.trim();
+    if (!mode || mode === "normal") continue;
+    tw.push(
+      blendModes.includes(mode)
+        ? `${twKey}-${mode}`
+        : arbitraryProperty(property, mode)
+    );
+  }
+
+  // ---------- TRANSITION ----------
+  // Durations and delays in ms: v3 has a fixed scale, v4 any integer
+  const timeClass = (twKey: string, time: string) => {
+    const ms = toMs(time);
+    const hasStep =
+      ms !== null &&
+      Number.isInteger(ms) &&
+      (target === "v4" ||
+        [0, 75, 100, 150, 200, 300, 500, 700, 1000].includes(ms));
+    return hasStep ? `${twKey}-${ms}` : arbitraryClass(twKey, time.trim());
+  };
+  const easeKey = (timing: string) => timing.trim().replace(/\s*,\s*/g, ", ");
+  const transitionScale =
+    target === "v4" ? defaultTransitionScaleV4 : defaultTransitionScale;
+  const transition = cssObj["transition"]?.trim();
+  const shorthand = transition ? parseTransition(transition) : null;
+  if (transition && !shorthand) {
+    tw.push(arbitraryProperty("transition", transition));
+  } else {
+    // transition-* classes bring a 150ms in-out timing, which the CSS
+    // defaults (0s ease) have to override
+    const property = (
+      cssObj["transition-property"] ?? shorthand?.property
+    )?.trim();
+    const name = property && transitionScale[splitCommas(property).join(", ")];
+    const implied = (value: string | undefined, fallback: string) =>
+      value ?? (property ? fallback : undefined);
+    const duration = implied(
+      cssObj["transition-duration"] ?? shorthand?.duration,
+      "0s"
+    );
+    const timing = implied(
+      cssObj["transition-timing-function"] ?? shorthand?.timing,
+      "ease"
+    );
+    const delay = cssObj["transition-delay"] ?? shorthand?.delay;
+    if (property) {
+      tw.push(
+        name === undefined
+          ? arbitraryClass("transition", property)
+          : name
+            ? `transition-${name}`
+            : "transition"
+      );
+    }
+    if (name !== "none") {
+      if (duration && !(property && toMs(duration) === 150)) {
+        tw.push(timeClass("duration", duration));
+      }
+      const ease = timing && defaultEaseScale[easeKey(timing)];
+      if (timing && !(property && ease === "in-out")) {
+        tw.push(ease ? `ease-${ease}` : arbitraryClass("ease", timing.trim()));
+      }
+      if (delay && toMs(delay) !== 0) tw.push(timeClass("delay", delay));
+    }
+  }
+
+  // ---------- TRANSFORM ----------
+  // Rotation in degrees: v3 has a fixed scale, v4 any integer
+  const rotateClass = (angle: string) => {
+    const match = angle.trim().match(/^(-?)(\d*\.?\d+)deg$/);
+    const hasStep =
+      match &&
+      /^\d+$/.test(match[2]) &&
+      (target === "v4" ||
+        ["0", "1", "2", "3", "6", "12", "45", "90", "180"].includes(match[2]));
+    return hasStep
+      ? `${match[1]}rotate-${match[2]}`
+      : arbitraryClass("rotate", angle);
+  };
+
+  // Scale factor as a percentage (1.05 → "scale-105", -1 → "-scale-x-100")
+  const scaleClass = (twKey: string, factor: string) => {
+    const value = factor.trim();
+    const number = value.endsWith("%")
+      ? parseFloat(value) / 100
+      : Number(value);
+    const percent = Math.round(Math.abs(number) * 1e6) / 1e4;
+    const hasStep =
+      Number.isInteger(percent) &&
+      (target === "v4" ||
+        [0, 50, 75, 90, 95, 100, 105, 110, 125, 150].includes(percent));
+    if (!/^-?\d*\.?\d+%?$/.test(value) || !hasStep) {
+      return arbitraryClass(twKey, value);
+    }
+    return `${number < 0 ? "-" : ""}${twKey}-${percent}`;
+  };
+
+  const translateClass = (twKey: string, value: string) =>
+    fractionClass(twKey, value) ?? spacingClass(twKey, value);
+
+  // Transform function kinds and the axes their arguments set
+  const transformAxes: Record<string, [string, string[]]> = {
+    translate: ["translate", ["x", "y"]],
+    translatex: ["translate", ["x"]],
+    translatey: ["translate", ["y"]],
+    rotate: ["rotate", [""]],
+    rotatez: ["rotate", [""]],
+    scale: ["scale", ["x", "y"]],
+    scalex: ["scale", ["x"]],
+    scaley: ["scale", ["y"]],
+  };
+
+  // Transform as translate/rotate/scale utilities, which apply in that order
+  // (null for matrices, 3D functions, skews and other orders)
+  const transformClasses = (value: string): string[] | null => {
+    const functions = parseFunctions(value);
+    if (!functions) return null;
+    const order = ["translate", "rotate", "scale"];
+    const classes: string[] = [];
+    let last = -1;
+    for (const { name, args } of functions) {
+      const entry = transformAxes[name.toLowerCase()];
+      if (!entry || args.length > entry[1].length) return null;
+      const [kind, axes] = entry;
+      if (order.indexOf(kind) <= last) return null;
+      last = order.indexOf(kind);
+
+      if (kind === "rotate") {
+        if (toDegrees(args[0]) !== 0 && args[0] !== "0") {
+          classes.push(rotateClass(args[0]));
+        }
+      } else if (kind === "scale") {
+        // scale(x) scales both axes
+        const [x, y = x] = args;
+        if (axes.length === 2 && x === y) {
+          if (Number(x) !== 1) classes.push(scaleClass("scale", x));
+        } else {
+          const factors = axes.length === 2 ? [x, y] : [x];
+          for (const [i, factor] of factors.entries()) {
+            if (Number(factor) !== 1) {
+              classes.push(scaleClass(`scale-${axes[i]}`, factor));
+            }
+          }
+        }
+      } else {
+        // translate(x) leaves y at 0
+        for (const [i, offset] of args.entries()) {
+          if (parseFloat(offset) !== 0) {
+            classes.push(translateClass(`translate-${axes[i]}`, offset));
+          }
+        }
+      }
+    }
+    return classes;
+  };
+
+  if (cssObj["transform"]) {
+    const transform = cssObj["transform"].trim();
+    if (transform === "none") {
+      tw.push("transform-none");
+    } else {
+      tw.push(
+        ...(transformClasses(transform) ?? [
+          arbitraryProperty("transform", transform),
+        ])
+      );
+    }
+  }
+  // Individual transform properties
+  if (cssObj["translate"]) {
+    const [x, y = "0"] = splitValues(cssObj["translate"]);
+    tw.push(
+      ...(transformClasses(`translate(${x}, ${y})`) ?? [
+        arbitraryProperty("translate", cssObj["translate"]),
+      ])
+    );
+  }
+  if (cssObj["rotate"]) tw.push(rotateClass(cssObj["rotate"]));
+  if (cssObj["scale"]) {
+    const [x, y = x] = splitValues(cssObj["scale"]);
+    tw.push(
+      ...(transformClasses(`scale(${x}, ${y})`) ?? [
+        arbitraryProperty("scale", cssObj["scale"]),
+      ])
+    );
+  }
+  if (cssObj["transform-origin"]) {
+    const origin = cssObj["transform-origin"];
+    const keywords = positionKeywords(origin);
+    if (!keywords) {
+      tw.push(arbitraryClass("origin", origin));
+    } else if (keywords.x !== "center" || keywords.y !== "center") {
+      // center is the default
+      const { x, y } = keywords;
+      tw.push(
+        x === "center"
+          ? `origin-${y}`
+          : y === "center"
+            ? `origin-${x}`
+            : `origin-${y}-${x}`
+      );
+    }
+  }
+
+  return tw;
+};
+
+// ---------- CONVERSION TRACE ----------
+// Properties toTailwind converts (anything else is reported as unsupported)
+const supportedProperties = new Set([
+  "display",
+  "flex-direction",
+  "flex-wrap",
+  "justify-content",
+  "align-items",
+  "align-content",
+  "align-self",
+  "gap",
+  "row-gap",
+  "column-gap",
+  "flex",
+  "flex-grow",
+  "flex-shrink",
+  "flex-basis",
+  "color",
+  "text-align",
+  "text-decoration-line",
+  "text-decoration-style",
+  "text-decoration-skip-ink",
+  "text-decoration-thickness",
+  "text-underline-offset",
+  "text-underline-position",
+  "font-size",
+  "font-weight",
+  "line-height",
+  "letter-spacing",
+  "font-family",
+  "font-style",
+  "margin",
+  "padding",
+  ...["top", "right", "bottom", "left"].flatMap((side) => [
+    `margin-${side}`,
+    `padding-${side}`,
+    `border-${side}`,
+    `border-${side}-width`,
+    `border-${side}-color`,
+  ]),
+  "position",
+  "inset",
+  "top",
+  "right",
+  "bottom",
+  "left",
+  "z-index",
+  "transform",
+  "transform-origin",
+  "translate",
+  "rotate",
+  "scale",
+  "width",
+  "height",
+  "border-radius",
+  "border-top-left-radius",
+  "border-top-right-radius",
+  "border-bottom-right-radius",
+  "border-bottom-left-radius",
+  "border",
+  "border-width",
+  "border-color",
+  "border-style",
+  "background",
+  "background-color",
+  "background-image",
+  "background-position",
+  "background-size",
+  "background-repeat",
+  "opacity",
+  "box-shadow",
+  "filter",
+  "backdrop-filter",
+  "mix-blend-mode",
+  "background-blend-mode",
+  "transition",
+  "transition-property",
+  "transition-duration",
+  "transition-timing-function",
+  "transition-delay",
+  "overflow",
+  "overflow-x",
+  "overflow-y",
+  "text-transform",
+  "white-space",
+  "text-overflow",
+  "-webkit-line-clamp",
+  "-webkit-box-orient",
+  "font-variant-numeric",
+  "font-feature-settings",
+  "text-indent",
+  "word-break",
+  "overflow-wrap",
+  "leading-trim",
+  "text-edge",
+  "text-box-trim",
+  "text-box-edge",
+]);
+
+export type TraceStatus =
+  | "exact" // converted to theme/scale classes
+  | "approximated" // snapped to a nearby scale value or palette color
+  | "arbitrary" // needs an arbitrary value or property
+  | "unsupported" // no conversion for this property
+  | "unparsed"; // not a "property: value" declaration
+
+export interface TraceRow {
+  property: string | null; // null for unparsed text
+  value: string;
+  classes: string[];
+  status: TraceStatus;
+  message: string;
+  start: number; // source offsets, for highlighting the line
+  end: number;
+  line: number;
+}
+
+// Trace how each declaration converts on its own. convertDeclaration returns
+// the classes for one declaration, with scale snapping and nearest color
+// matching turned off when exact is set
+const traceConversion = (
+  parsed: ParsedCSS,
+  convertDeclaration: (declaration: CSSDeclaration, exact: boolean) => string[]
+): TraceRow[] => {
+  const rows: TraceRow[] = parsed.declarations.map((declaration) => {
+    const { property, value, start, end, line } = declaration;
+    const row = { property, value, start, end, line };
+    if (!supportedProperties.has(property)) {
+      return {
+        ...row,
+        classes: [],
+        status: "unsupported",
+        message: `No Tailwind conversion for ${property}`,
+      };
+    }
+
+    const classes = convertDeclaration(declaration, false);
+    const exactClasses = convertDeclaration(declaration, true);
+    let status: TraceStatus = "exact";
+    let message = "";
+    if (classes.length === 0) {
+      message = "Default value, no class needed";
+    } else if (classes.some((c) => /\[(?![\w-]+:var\(|var\()/.test(c))) {
+      // Arbitrary values other than kept variables (bg-[var(--x)])
+      status = "arbitrary";
+      message = "No matching utility, uses an arbitrary value";
+    } else if (classes.join(" ") !== exactClasses.join(" ")) {
+      status = "approximated";
+      message = `Snapped to the nearest value (exact: ${exactClasses.join(" ")})`;
+    }
+    const important = declaration.important ? "!important was dropped" : "";
+    return {
+      ...row,
+      classes,
+      status,
+      message: [message, important].filter(Boolean).join("; "),
+    };
+  });
+
+  const unparsedRows: TraceRow[] = parsed.unparsed.map((fragment) => ({
+    property: null,
+    value: fragment.text,
+    classes: [],
+    status: "unparsed",
+    message: "Not a property: value declaration",
+    start: fragment.start,
+    end: fragment.end,
+    line: fragment.line,
+  }));
+
+  return [...rows, ...unparsedRows].sort((a, b) => a.start - b.start);
+};
+
+export interface OptimizerOptions {
+  axes: boolean; // pl-4 pr-4 → px-4, rounded-tl-lg rounded-tr-lg → rounded-t-lg
+  sides: boolean; // px-4 py-4 → p-4, gap-x-2 gap-y-2 → gap-2
+  size: boolean; // w-10 h-10 → size-10
+  fontLeading: boolean; // text-sm leading-6 → text-sm/6
+  defaults: boolean; // drop classes that restate defaults (border-solid, font-normal, ...)
+}
+
+// Utilities whose sides/corners can be combined, keyed by role
+// (all, x/y axes, t/r/b/l sides, tl/tr/br/bl corners)
+interface SideFamily {
+  prefixes: Record<string, string>;
+  isValue?: (value: string) => boolean;
+}
+
+const sideFamilies: SideFamily[] = [
+  {
+    prefixes: {
+      all: "p",
+      x: "px",
+      y: "py",
+      t: "pt",
+      r: "pr",
+      b: "pb",
+      l: "pl",
+    },
+  },
+  {
+    prefixes: {
+      all: "m",
+      x: "mx",
+      y: "my",
+      t: "mt",
+      r: "mr",
+      b: "mb",
+      l: "ml",
+    },
+  },
+  {
+    prefixes: {
+      all: "inset",
+      x: "inset-x",
+      y: "inset-y",
+      t: "top",
+      r: "right",
+      b: "bottom",
+      l: "left",
+    },
+  },
+  { prefixes: { all: "gap", x: "gap-x", y: "gap-y" } },
+  {
+    prefixes: {
+      all: "border",
+      x: "border-x",
+      y: "border-y",
+      t: "border-t",
+      r: "border-r",
+      b: "border-b",
+      l: "border-l",
+    },
+    // Only widths, border-t-gray-200 is a color
+    isValue: (value) =>
+      value === "" ||
+      /^\d+$/.test(value) ||
+      /^\[[\d.]+(px|rem|em)\]$/.test(value),
+  },
+  {
+    prefixes: {
+      all: "rounded",
+      t: "rounded-t",
+      r: "rounded-r",
+      b: "rounded-b",
+      l: "rounded-l",
+      tl: "rounded-tl",
+      tr: "rounded-tr",
+      br: "rounded-br",
+      bl: "rounded-bl",
+    },
+  },
+];
+
+// Classes that only restate the browser/Tailwind defaults
+const defaultClasses = new Set([
+  "border-solid",
+  "font-normal",
+  "not-italic",
+  "decoration-solid",
+  "opacity-100",
+]);
+
+// Combine equal sides of one family (e.g. pl-4 pr-4 → px-4)
+const combineSides = (
+  classes: (string | null)[],
+  family: SideFamily,
+  options: OptimizerOptions
+) => {
+  const present: Record<string, { value: string; index: number }> = {};
+  const roles = Object.entries(family.prefixes).sort(
+    ([, a], [, b]) => b.length - a.length
+  );
+
+  for (const [index, cls] of classes.entries()) {
+    if (cls === null) continue;
+    const negative = cls.startsWith("-");
+    const bare = negative ? cls.slice(1) : cls;
+    // Longest prefix first, so "inset-x-0" isn't read as "inset" + "x-0"
+    const role = roles.find(
+      ([, prefix]) => bare === prefix || bare.startsWith(`${prefix}-`)
+    );
+    if (!role) continue;
+    const value = bare.slice(role[1].length + 1);
+    if (family.isValue && !family.isValue(value)) continue;
+    // A side set twice can't be combined safely
+    if (present[role[0]]) return;
+    present[role[0]] = { value: negative ? `-${value}` : value, index };
+  }
+
+  const merge = (from: string[], to: string) => {
+    if (!family.prefixes[to] || present[to]) return;
+    const entries = from.map((role) => present[role]);
+    if (entries.some((entry) => !entry)) return;
+    if (entries.some((entry) => entry.value !== entries[0].value)) return;
+
+    const index = Math.min(...entries.map((entry) => entry.index));
+    for (const role of from) {
+      classes[present[role].index] = null;
+      delete present[role];
+    }
+    present[to] = { value: entries[0].value, index };
+  };
+
+  if (options.sides) {
+    merge(["t", "r", "b", "l"], "all");
+    merge(["tl", "tr", "br", "bl"], "all");
+  }
+  if (options.axes) {
+    merge(["t", "b"], "y");
+    merge(["l", "r"], "x");
+    merge(["tl", "tr"], "t");
+    merge(["bl", "br"], "b");
+    merge(["tl", "bl"], "l");
+    merge(["tr", "br"], "r");
+  }
+  if (options.sides) {
+    merge(["x", "y"], "all");
+    // Rounded sides: rounded-t + rounded-b (or l + r) cover all corners
+    if (!family.prefixes.x) {
+      merge(["t", "b"], "all");
+      merge(["l", "r"], "all");
+    }
+  }
+
+  for (const [role, { value, index }] of Object.entries(present)) {
+    const negative = value.startsWith("-");
+    const bare = negative ? value.slice(1) : value;
+    const prefix = family.prefixes[role];
+    classes[index] = `${negative ? "-" : ""}${prefix}${bare ? `-${bare}` : ""}`;
+  }
+};
+
+// Collapse redundant utilities in toTailwind's output (before prefixes are applied)
+const optimizeClasses = (
+  classes: string[],
+  options: OptimizerOptions,
+  scales: ThemeScales
+): string[] => {
+  const result: (string | null)[] = options.defaults
+    ? classes.filter((cls) => !defaultClasses.has(cls))
+    : [...classes];
+
+  if (options.axes || options.sides) {
+    for (const family of sideFamilies) combineSides(result, family, options);
+  }
+
+  if (options.size) {
+    const widths = result.filter((cls) => cls?.startsWith("w-"));
+    const heights = result.filter((cls) => cls?.startsWith("h-"));
+    if (widths.length === 1 && heights.length === 1) {
+      const width = widths[0]!.slice(2);
+      const height = heights[0]!.slice(2);
+      if (width === height && width !== "screen") {
+        result[result.indexOf(widths[0])] = `size-${width}`;
+        result[result.indexOf(heights[0])] = null;
+      }
+    }
+  }
+
+  if (options.fontLeading) {
+    const sizeIndex = result.findIndex(
+      (cls) => cls !== null && getClassPropertyType(cls, scales) === "font-size"
+    );
+    const leadingIndex = result.findIndex((cls) => cls?.startsWith("leading-"));
+    if (sizeIndex !== -1 && leadingIndex !== -1) {
+      const leading = result[leadingIndex]!.slice("leading-".length);
+      result[sizeIndex] = `${result[sizeIndex]}/${leading}`;
+      result[leadingIndex] = null;
+    }
+  }
+
+  return result.filter((cls): cls is string => cls !== null);
+};
+
+export const applyPrefixes = (classes: string[], prefixStr: string) => {
+  if (!prefixStr.trim()) return classes.join(" ");
+
+  const px = prefixStr.split(/\s+/).map((p) => p.replace(/:$/, "") + ":"); // ensure colon
+
+  return classes.map((cls) => px.map((p) => `${p}${cls}`).join(" ")).join(" ");
+};
+
+// Get the property type from a Tailwind class (e.g., "text-sm" -> "font-size", "font-bold" -> "font-weight")
+const getClassPropertyType = (
+  className: string,
+  scales: ThemeScales
+): string | null => {
+  // Remove variants and modifiers (e.g., "lg:hover:!-mt-2" -> "mt-2")
+  const cleanClass = parseClassName(className).base;
+
+  // Font size (text-xs, text-sm, text-base, etc., theme sizes, or text-[size]),
+  // optionally with a line-height modifier (text-sm/6)
+  if (
+    cleanClass.startsWith("text-") &&
+    Object.values(scales.fontSizeMap).includes(
+      cleanClass.slice(5).split("/")[0]
+    )
+  ) {
+    return "font-size";
+  }
+  // Arbitrary font size (text-[16px], text-[1rem], text-[15px]/6, etc.) or a
+  // length variable (text-(length:--x), text-[length:var(--x)])
+  if (
+    /^text-\[[^\]]*(px|rem|em)\](\/\S+)?$/.test(cleanClass) ||
+    /^text-[[(]length:/.test(cleanClass)
+  ) {
+    return "font-size";
+  }
+  // Font family (font-sans, theme fonts, arbitrary non-numeric font-[...] or
+  // a family variable)
+  if (
+    (cleanClass.startsWith("font-") &&
+      scales.fontNames.includes(cleanClass.slice(5))) ||
+    /^font-(\[(?!number:)[^\d]|\(family-name:)/.test(cleanClass)
+  ) {
+    return "font-family";
+  }
+  // Font weight (font-* but not font-style)
+  if (
+    cleanClass.startsWith("font-") &&
+    !cleanClass.startsWith("font-[") &&
+    cleanClass !== "font-italic" &&
+    cleanClass !== "font-not-italic"
+  ) {
+    // font-normal, font-bold, font-thin, etc. are all font-weight
+    return "font-weight";
+  }
+  // Arbitrary font weight (font-[700], font-[number:var(--x)], etc.)
+  if (/^font-\[(\d+\]$|number:)/.test(cleanClass)) {
+    return "font-weight";
+  }
+  // Font style
+  if (cleanClass === "italic" || cleanClass === "not-italic") {
+    return "font-style";
+  }
+  // Line height (leading-*)
+  if (cleanClass.startsWith("leading-")) {
+    return "line-height";
+  }
+  // Letter spacing (tracking-*)
+  if (cleanClass.startsWith("tracking-")) {
+    return "letter-spacing";
+  }
+  // Text transform, white-space, overflow and clamping
+  if (/^(uppercase|lowercase|capitalize|normal-case)$/.test(cleanClass)) {
+    return "text-transform";
+  }
+  if (cleanClass.startsWith("whitespace-")) {
+    return "white-space";
+  }
+  if (/^text-(ellipsis|clip)$/.test(cleanClass)) {
+    return "text-overflow";
+  }
+  if (cleanClass === "truncate") {
+    return "truncate";
+  }
+  if (cleanClass.startsWith("line-clamp-")) {
+    return "line-clamp";
+  }
+  const overflowMatch = cleanClass.match(/^overflow(-[xy])?-/);
+  if (overflowMatch) {
+    return `overflow${overflowMatch[1] ?? ""}`;
+  }
+  // Numeric variants (tabular-nums and slashed-zero stack)
+  if (cleanClass === "normal-nums") {
+    return "font-variant-numeric";
+  }
+  if (/^(lining|oldstyle)-nums$/.test(cleanClass)) {
+    return "numeric-figure";
+  }
+  if (/^(proportional|tabular)-nums$/.test(cleanClass)) {
+    return "numeric-spacing";
+  }
+  if (/^(diagonal|stacked)-fractions$/.test(cleanClass)) {
+    return "numeric-fraction";
+  }
+  if (cleanClass === "ordinal" || cleanClass === "slashed-zero") {
+    return cleanClass;
+  }
+  // Text indent
+  if (cleanClass.startsWith("indent-")) {
+    return "text-indent";
+  }
+  // Word breaking (break-normal resets both)
+  if (/^break-(all|keep)$/.test(cleanClass)) {
+    return "word-break";
+  }
+  if (cleanClass === "break-words" || cleanClass.startsWith("wrap-")) {
+    return "overflow-wrap";
+  }
+  if (cleanClass === "break-normal") {
+    return "break";
+  }
+  // Text decoration line, style, thickness, color and underline offset
+  if (/^(underline|overline|line-through|no-underline)$/.test(cleanClass)) {
+    return "text-decoration-line";
+  }
+  if (cleanClass.startsWith("underline-offset-")) {
+    return "text-underline-offset";
+  }
+  if (/^decoration-(solid|double|dotted|dashed|wavy)$/.test(cleanClass)) {
+    return "text-decoration-style";
+  }
+  if (
+    /^decoration-(\d+|auto|from-font|[[(]length:.*|\[[\d.]+(px|rem|em)\])$/.test(
+      cleanClass
+    )
+  ) {
+    return "text-decoration-thickness";
+  }
+  if (cleanClass.startsWith("decoration-")) {
+    return "text-decoration-color";
+  }
+  // Color (text-{color}-{shade} or a theme color, but not font-size),
+  // ignoring any opacity modifier (e.g. "text-black/50")
+  const colorClassName = cleanClass.replace(/\/(\d+|\[[^\]]+\])$/, "");
+  if (
+    /^text-(white|black|transparent|current|inherit)$/.test(colorClassName) ||
+    (colorClassName.startsWith("text-") &&
+      scales.colorNames.includes(colorClassName.slice(5))) ||
+    (scales.paletteNames.length > 0 &&
+      new RegExp(`^text-(${scales.paletteNames.join("|")})-\\d+$`).test(
+        colorClassName
+      ))
+  ) {
+    return "color";
+  }
+  // Arbitrary color (text-[#hex], text-[rgb(...)] or text-(color:--x))
+  if (/^text-[[(]/.test(cleanClass) && !/(px|rem|em)\]$/.test(cleanClass)) {
+    return "color";
+  }
+  // Background image (bg-none, gradients, arbitrary images)
+  if (
+    /^bg-(none$|(linear|gradient|radial|conic)(-|$)|\[(image:|url\(|(repeating-)?(linear|radial|conic)-gradient))/.test(
+      cleanClass
+    )
+  ) {
+    return "background-image";
+  }
+  // Background size / repeat / position / attachment
+  if (/^bg-(cover|contain|auto|\[size:)/.test(cleanClass)) {
+    return "background-size";
+  }
+  if (/^bg-(no-repeat|repeat(-x|-y|-space|-round)?)$/.test(cleanClass)) {
+    return "background-repeat";
+  }
+  if (
+    /^bg-((center|top|bottom|left|right)(-(top|bottom|left|right))?$|\[position:)/.test(
+      cleanClass
+    )
+  ) {
+    return "background-position";
+  }
+  if (/^bg-(fixed|local|scroll)$/.test(cleanClass)) {
+    return "background-attachment";
+  }
+  // Blend modes
+  if (cleanClass.startsWith("mix-blend-")) {
+    return "mix-blend-mode";
+  }
+  if (cleanClass.startsWith("bg-blend-")) {
+    return "background-blend-mode";
+  }
+  // Transitions
+  if (cleanClass === "transition" || cleanClass.startsWith("transition-")) {
+    return "transition-property";
+  }
+  if (cleanClass.startsWith("duration-")) {
+    return "transition-duration";
+  }
+  if (cleanClass.startsWith("ease-")) {
+    return "transition-timing-function";
+  }
+  if (cleanClass.startsWith("delay-")) {
+    return "transition-delay";
+  }
+  // Background color
+  if (cleanClass.startsWith("bg-")) {
+    return "background-color";
+  }
+  // Gradient stops, color and position (from-white and from-10% stack)
+  const stopMatch = cleanClass.match(/^(from|via|to)-(.+)$/);
+  if (stopMatch) {
+    return /^(\d+%|\[\d*\.?\d+%\])$/.test(stopMatch[2])
+      ? `gradient-${stopMatch[1]}-position`
+      : `gradient-${stopMatch[1]}`;
+  }
+  // Border style (applies to all sides)
+  if (/^border-(solid|dashed|dotted|double|hidden|none)$/.test(cleanClass)) {
+    return "border-style";
+  }
+  // Border width / color, per side (border-t-2 and border-x-gray-200 are separate properties)
+  const borderMatch = cleanClass.match(/^border(?:-([trblxy]))?(?:-(.+))?$/);
+  if (borderMatch) {
+    const [, side, rest] = borderMatch;
+    const isWidth =
+      rest === undefined ||
+      /^\d+$/.test(rest) ||
+      /^\[(length:)?\d*\.?\d+(px|rem|em)\]$/.test(rest) ||
+      /^[[(]length:/.test(rest);
+    return `border-${isWidth ? "width" : "color"}${side ? `-${side}` : ""}`;
+  }
+  // Border radius, per corner or side
+  const radiusMatch = cleanClass.match(
+    /^rounded(?:-(tl|tr|br|bl|t|r|b|l))?(-|$)/
+  );
+  if (radiusMatch) {
+    return radiusMatch[1] ? `border-radius-${radiusMatch[1]}` : "border-radius";
+  }
+  // Size (width and height together)
+  if (cleanClass.startsWith("size-")) {
+    return "size";
+  }
+  // Width
+  if (cleanClass.startsWith("w-")) {
+    return "width";
+  }
+  // Height
+  if (cleanClass.startsWith("h-")) {
+    return "height";
+  }
+  // Opacity
+  if (cleanClass.startsWith("opacity-")) {
+    return "opacity";
+  }
+  // Shadow color (shadow-red-500, shadow-[#f00]/50 or shadow-(color:--x)),
+  // which stacks with the shadow like border color and width
+  const shadowValue = cleanClass.match(/^shadow-(.+)$/)?.[1];
+  const shadowArbitrary = shadowValue?.match(/^\[([^\]]+)\](\/\S+)?$/)?.[1];
+  if (
+    shadowValue !== undefined &&
+    (isColorValue(shadowValue, { scales, target: "v3" }) ||
+      /^[[(]color:/.test(shadowValue) ||
+      (shadowArbitrary !== undefined && parseColor(shadowArbitrary) !== null))
+  ) {
+    return "shadow-color";
+  }
+  // Box shadow
+  if (cleanClass === "shadow" || cleanClass.startsWith("shadow-")) {
+    return "box-shadow";
+  }
+  if (cleanClass.startsWith("inset-shadow-")) {
+    return "inset-shadow";
+  }
+  // Filters, one group per function (blur-sm and brightness-50 stack)
+  const filterMatch = cleanClass.match(
+    /^((backdrop-)?(blur|brightness|contrast|grayscale|hue-rotate|invert|saturate|sepia)|backdrop-opacity|drop-shadow)(-|$)/
+  );
+  if (filterMatch) {
+    return filterMatch[1];
+  }
+  if (/^(backdrop-)?filter-none$/.test(cleanClass)) {
+    return cleanClass.startsWith("backdrop-") ? "backdrop-filter" : "filter";
+  }
+  // Spacing (margin/padding), per side or axis (p-4 and px-2 are separate properties)
+  const spacingMatch = cleanClass.match(/^-?(m|p)([trblxy]?)-/);
+  if (spacingMatch) {
+    const [, kind, side] = spacingMatch;
+    return `${kind === "m" ? "margin" : "padding"}${side ? `-${side}` : ""}`;
+  }
+  // Inset / position offsets
+  const insetMatch = cleanClass.match(
+    /^-?(inset-x|inset-y|inset|top|right|bottom|left)-/
+  );
+  if (insetMatch) {
+    return insetMatch[1];
+  }
+  // Position
+  if (/^(static|relative|absolute|fixed|sticky)$/.test(cleanClass)) {
+    return "position";
+  }
+  // Z-index
+  if (cleanClass.startsWith("z-")) {
+    return "z-index";
+  }
+  // Transforms (scale-150 and scale-x-[-1] are separate properties)
+  const transformMatch = cleanClass.match(
+    /^(rotate|scale-x|scale-y|scale|translate-x|translate-y)-/
+  );
+  if (transformMatch) {
+    return transformMatch[1];
+  }
+  if (cleanClass === "transform-none") {
+    return "transform";
+  }
+  if (cleanClass.startsWith("origin-")) {
+    return "transform-origin";
+  }
+  // Display
+  if (
+    /^(flex|inline-flex|grid|inline-grid|block|inline-block|inline|contents|hidden)$/.test(
+      cleanClass
+    )
+  ) {
+    return "display";
+  }
+  // Flex direction
+  if (/^flex-(row|row-reverse|col|col-reverse)$/.test(cleanClass)) {
+    return "flex-direction";
+  }
+  // Flex wrap
+  if (/^flex-(wrap|wrap-reverse|nowrap)$/.test(cleanClass)) {
+    return "flex-wrap";
+  }
+  // Flex shorthand (flex-1, flex-auto, flex-none, flex-[...])
+  if (cleanClass.startsWith("flex-")) {
+    return "flex";
+  }
+  // Flex grow / shrink / basis
+  if (cleanClass === "grow" || cleanClass.startsWith("grow-")) {
+    return "flex-grow";
+  }
+  if (cleanClass === "shrink" || cleanClass.startsWith("shrink-")) {
+    return "flex-shrink";
+  }
+  if (cleanClass.startsWith("basis-")) {
+    return "flex-basis";
+  }
+  // Alignment
+  if (cleanClass.startsWith("justify-")) {
+    return "justify-content";
+  }
+  if (cleanClass.startsWith("items-")) {
+    return "align-items";
+  }
+  // Generated content (before:content-['x']), not align-content
+  if (/^content-(none$|\[)/.test(cleanClass)) {
+    return "content";
+  }
+  if (cleanClass.startsWith("content-")) {
+    return "align-content";
+  }
+  if (cleanClass.startsWith("self-")) {
+    return "align-self";
+  }
+  // Gap
+  if (cleanClass.startsWith("gap-x-")) {
+    return "column-gap";
+  }
+  if (cleanClass.startsWith("gap-y-")) {
+    return "row-gap";
+  }
+  if (cleanClass.startsWith("gap-")) {
+    return "gap";
+  }
+
+  return null;
+};
+
+// Describe which CSS property types a dictionary value can be used for
+export const dictValueNote = (value: string, scales: ThemeScales): string => {
+  if (parseColor(value)) return "colors";
+  if (/^-?\d*\.?\d+(px|rem|em|%)$/.test(value)) {
+    return "lengths (spacing, sizes, font-size, border-radius...)";
+  }
+  if (/^\d*\.?\d+$/.test(value)) {
+    return "numbers (font-weight, opacity, line-height) and spacing steps";
+  }
+  const type = getClassPropertyType(value, scales);
+  if (type) {
+    return /color$/.test(type)
+      ? `${type} class (its color is reused for other color properties)`
+      : `${type} class`;
+  }
+
+  const types: string[] = [];
+  if (
+    scales.colorNames.includes(value) ||
+    ["white", "black", "transparent", "current"].includes(value) ||
+    new RegExp(`^(${scales.paletteNames.join("|")})-\\d+$`).test(value)
+  ) {
+    types.push("colors");
+  }
+  if (scales.fontNames.includes(value)) types.push("font-family");
+  if (Object.values(scales.fontSizeMap).includes(value)) {
+    types.push("font-size");
+  }
+  if (Object.values(scales.fontWeightMap).includes(value)) {
+    types.push("font-weight");
+  }
+  if (Object.values(scales.spacingScale).includes(value)) {
+    types.push("spacing and sizes");
+  }
+  if (Object.values(scales.radiusScale).includes(value)) {
+    types.push("border-radius");
+  }
+  if (Object.values(scales.shadowMap).includes(value)) {
+    types.push("box-shadow");
+  }
+  return types.length > 0
+    ? types.join(", ")
+    : "not a theme value (assumed to be a custom theme name)";
+};
+
+export interface VariantFrame {
+  variant: string; // breakpoint/state variant stack (e.g. "md", "hover", "md:hover")
+  css: string;
+}
+
+// Classes that restore a property to its default, for properties the base
+// frame sets but a variant frame doesn't (e.g. base flex-col, md frame is a row)
+const groupResetClasses: Record<string, string> = {
+  "flex-direction": "flex-row",
+  "flex-wrap": "flex-nowrap",
+  "font-style": "not-italic",
+  "text-decoration-line": "no-underline",
+  "background-color": "bg-transparent",
+  "background-image": "bg-none",
+  "box-shadow": "shadow-none",
+  opacity: "opacity-100",
+  padding: "p-0",
+  margin: "m-0",
+  gap: "gap-0",
+  "border-width": "border-0",
+  "border-radius": "rounded-none",
+  position: "static",
+  "z-index": "z-auto",
+  rotate: "rotate-0",
+  scale: "scale-100",
+  "translate-x": "translate-x-0",
+  "translate-y": "translate-y-0",
+  "transform-origin": "origin-center",
+  blur: "blur-none",
+  "backdrop-blur": "backdrop-blur-none",
+  "drop-shadow": "drop-shadow-none",
+  "mix-blend-mode": "mix-blend-normal",
+  "text-transform": "normal-case",
+  "white-space": "whitespace-normal",
+  "line-clamp": "line-clamp-none",
+  overflow: "overflow-visible",
+};
+
+// Classes of a variant frame whose property group differs from the base
+// frame, prefixed with the frame's variant (base "p-4", md frame "p-6" → "md:p-6")
+const diffVariantClasses = (
+  baseClasses: string[],
+  frameClasses: string[],
+  variant: string,
+  scales: ThemeScales
+): string[] => {
+  const prefix = variant
+    .split(/[\s:]+/)
+    .filter(Boolean)
+    .join(":");
+  if (!prefix) return [];
+
+  // Classes without a property type are compared by name
+  const groupClasses = (classes: string[]) => {
+    const groups = new Map<string, string[]>();
+    for (const cls of classes) {
+      const group = getClassPropertyType(cls, scales) ?? cls;
+      groups.set(group, [...(groups.get(group) ?? []), cls]);
+    }
+    return groups;
+  };
+
+  const baseGroups = groupClasses(baseClasses);
+  const frameGroups = groupClasses(frameClasses);
+  const diff: string[] = [];
+  for (const [group, classes] of frameGroups) {
+    const base = baseGroups.get(group) ?? [];
+    const unchanged =
+      base.length === classes.length &&
+      classes.every((cls) => base.includes(cls));
+    if (!unchanged) diff.push(...classes.map((cls) => `${prefix}:${cls}`));
+  }
+  for (const group of baseGroups.keys()) {
+    if (!frameGroups.has(group) && groupResetClasses[group]) {
+      diff.push(`${prefix}:${groupResetClasses[group]}`);
+    }
+  }
+  return diff;
+};
+
+interface ParsedClass {
+  variants: string[]; // variant stack (e.g. ["md", "hover"] for "md:hover:text-sm")
+  important: boolean; // "!text-sm" (v3) or "text-sm!" (v4)
+  negative: boolean; // "-mt-2"
+  base: string; // utility without variants and modifiers (e.g. "mt-2")
+}
+
+export interface RemovedClass {
+  className: string;
+  replacedBy: string;
+}
+
+// Generated class that would generate no CSS
+export interface InvalidClass {
+  className: string;
+  message: string;
+}
+
+// Split a class into its variants, important/negative modifiers and utility.
+// Colons inside arbitrary values and variants ("[&:hover]:bg-[url(a:b)]") don't split
+const parseClassName = (className: string): ParsedClass => {
+  const parts: string[] = [];
+  let current = "";
+  let depth = 0;
+  for (const ch of className) {
+    if (ch === "[" || ch === "(") depth++;
+    if (ch === "]" || ch === ")") depth = Math.max(0, depth - 1);
+    if (ch === ":" && depth === 0) {
+      parts.push(current);
+      current = "";
+    } else {
+      current += ch;
+    }
+  }
+
+  let base = current;
+  let important = false;
+  if (base.startsWith("!")) {
+    important = true;
+    base = base.slice(1);
+  } else if (base.endsWith("!")) {
+    important = true;
+    base = base.slice(0, -1);
+  }
+  const negative = base.startsWith("-");
+  if (negative) base = base.slice(1);
+
+  return { variants: parts, important, negative, base };
+};
+
+// Property groups a class overrides besides its own, so a later p-4 removes an
+// earlier px-2 or pt-2 (but a later px-2 keeps an earlier p-4)
+const boxOverrides = (group: string): Record<string, string[]> => ({
+  [group]: ["x", "y", "t", "r", "b", "l"].map((side) => `${group}-${side}`),
+  [`${group}-x`]: [`${group}-r`, `${group}-l`],
+  [`${group}-y`]: [`${group}-t`, `${group}-b`],
+});
+
+const overriddenGroups: Record<string, string[]> = {
+  ...boxOverrides("padding"),
+  ...boxOverrides("margin"),
+  ...boxOverrides("border-width"),
+  ...boxOverrides("border-color"),
+  inset: ["inset-x", "inset-y", "top", "right", "bottom", "left"],
+  "inset-x": ["right", "left"],
+  "inset-y": ["top", "bottom"],
+  "border-radius": ["t", "r", "b", "l", "tl", "tr", "br", "bl"].map(
+    (side) => `border-radius-${side}`
+  ),
+  "border-radius-t": ["border-radius-tl", "border-radius-tr"],
+  "border-radius-r": ["border-radius-tr", "border-radius-br"],
+  "border-radius-b": ["border-radius-br", "border-radius-bl"],
+  "border-radius-l": ["border-radius-tl", "border-radius-bl"],
+  gap: ["row-gap", "column-gap"],
+  size: ["width", "height"],
+  scale: ["scale-x", "scale-y"],
+  overflow: ["overflow-x", "overflow-y"],
+  truncate: [
+    "overflow",
+    "overflow-x",
+    "overflow-y",
+    "white-space",
+    "text-overflow",
+  ],
+  "line-clamp": ["overflow", "overflow-x", "overflow-y", "display"],
+  "font-variant-numeric": [
+    "numeric-figure",
+    "numeric-spacing",
+    "numeric-fraction",
+    "ordinal",
+    "slashed-zero",
+  ],
+  break: ["word-break", "overflow-wrap"],
+  flex: ["flex-grow", "flex-shrink", "flex-basis"],
+};
+
+// Merge existing classes with new classes. Later classes win: an earlier class
+// is removed when a later one sets the same property group under the same
+// variant stack and important modifier
+export const mergeClasses = (
+  existingClasses: string[],
+  newClasses: string[],
+  scales: ThemeScales
+): { classes: string[]; removed: RemovedClass[] } => {
+  // Drop exact duplicates, keeping the first occurrence
+  const all = [...new Set([...existingClasses, ...newClasses])];
+
+  const winners = new Map<string, string>(); // conflict key → class that set it
+  const kept: string[] = [];
+  const removed: RemovedClass[] = [];
+
+  for (let i = all.length - 1; i >= 0; i--) {
+    const className = all[i];
+    const parsed = parseClassName(className);
+    const group = getClassPropertyType(className, scales);
+    if (!group) {
+      kept.push(className);
+      continue;
+    }
+
+    // Variant order doesn't matter for conflicts (md:hover: equals hover:md:)
+    const scope = `${[...parsed.variants].sort().join(":")}:${
+      parsed.important ? "!" : ""
+    }`;
+    const winner = winners.get(scope + group);
+    if (winner) {
+      removed.push({ className, replacedBy: winner });
+      continue;
+    }
+
+    kept.push(className);
+    const groups = [group, ...(overriddenGroups[group] ?? [])];
+    // text-sm/6 also sets the line height
+    if (group === "font-size" && parsed.base.includes("/")) {
+      groups.push("line-height");
+    }
+    for (const overridden of groups) {
+      if (!winners.has(scope + overridden)) {
+        winners.set(scope + overridden, className);
+      }
+    }
+  }
+
+  return { classes: kept.reverse(), removed: removed.reverse() };
+};
+
+// ---------- PIPELINE ----------
+export const defaultScaleOptions: ScaleOptions = {
+  enabled: true,
+  tolerance: 0,
+};
+
+export const defaultColorOptions: ColorOptions = {
+  match: "exact",
+  maxDistance: 2,
+};
+
+export const defaultOptimizerOptions: OptimizerOptions = {
+  axes: true,
+  sides: true,
+  size: true,
+  fontLeading: true,
+  defaults: true,
+};
+
+export interface ConvertOptions {
+  dictionary?: VarDict; // CSS variable → Tailwind value
+  modes?: VarModes; // per-variant dictionary overrides (e.g. dark)
+  rules?: VarRule[]; // pattern rules for variables missing from the dictionary
+  prefixes?: string; // variants applied to every class (e.g. "md hover")
+  existingClasses?: string; // classes to merge the output into
+  variantFrames?: VariantFrame[]; // the same element at other breakpoints/states
+  layers?: boolean; // also convert each layer block separately
+  theme?: ThemeModel | null;
+  target?: TailwindTarget;
+  keepVariables?: boolean;
+  scale?: ScaleOptions;
+  colors?: ColorOptions;
+  optimizer?: OptimizerOptions;
+}
+
+export interface LayerOutput {
+  name: string;
+  classes: string;
+  invalid: InvalidClass[];
+}
+
+export interface ConversionResult {
+  classes: string[]; // merged class list
+  className: string; // merged class list as a className string
+  removed: RemovedClass[]; // existing classes replaced by converted ones
+  invalid: InvalidClass[]; // generated classes that would do nothing
+  layers: LayerOutput[]; // one entry per layer block (with the layers option)
+  trace: TraceRow[];
+  warnings: string[]; // unsupported/unparsed declarations and invalid classes
+  ruleMappings: VarDict; // variables mapped by pattern rules
+  unmappedVariables: Record<string, string>; // variable → fallback
+  variableTheme: string; // @theme/:root block for kept variables
+}
+
+const splitClasses = (classes: string) =>
+  classes
+    .split(/\s+/)
+    .map((c) => c.trim())
+    .filter(Boolean);
+
+// Convert pasted CSS to Tailwind classes: resolve variables, convert and
+// optimize the declarations, add variant and mode classes, then merge them
+// into the existing classes
+export const convertCSS = (
+  css: string,
+  options: ConvertOptions = {}
+): ConversionResult => {
+  const {
+    dictionary = {},
+    modes = {},
+    rules = [],
+    prefixes = "",
+    existingClasses = "",
+    variantFrames = [],
+    layers = false,
+    theme = null,
+    target = "v3",
+    keepVariables = false,
+    scale = defaultScaleOptions,
+    colors = defaultColorOptions,
+    optimizer = defaultOptimizerOptions,
+  } = options;
+  const emit: EmitOptions = { target, keepVariables };
+  const scales = resolveScales(theme, target);
+
+  const parsed = parseStylesheet(css);
+  const frames = variantFrames.map((frame) => ({
+    variant: frame.variant,
+    declarations: parseDeclarations(frame.css),
+  }));
+  const allDeclarations = [
+    ...parsed.declarations,
+    ...frames.flatMap((frame) => frame.declarations),
+  ];
+
+  // Dictionary entries plus the variables matched by pattern rules
+  const ruleMappings = applyVarRules(
+    Object.keys(collectVariables(allDeclarations, {})),
+    rules,
+    dictionary
+  );
+  const dict: VarDict = { ...ruleMappings, ...dictionary };
+
+  // Resolve declarations into the property record toTailwind consumes
+  const toProperties = (declarations: CSSDeclaration[], d: VarDict) => {
+    const obj: Record<string, string> = {};
+    for (const declaration of declarations) {
+      obj[declaration.property] = resolveVariables(
+        declaration.value,
+        d,
+        keepVariables
+      );
+    }
+    return obj;
+  };
+
+  // Convert declarations to optimized classes, before prefixes are applied
+  const toClasses = (declarations: CSSDeclaration[], d: VarDict = dict) =>
+    optimizeClasses(
+      toTailwind(toProperties(declarations, d), scale, scales, colors, emit),
+      optimizer,
+      scales
+    );
+
+  // Convert declarations to classes and merge them with existing classes
+  const convert = (
+    declarations: CSSDeclaration[],
+    existingClassesList: string[],
+    variantClasses: string[] = []
+  ) => {
+    const baseClasses = toClasses(declarations);
+    const newClassesList = splitClasses(applyPrefixes(baseClasses, prefixes));
+
+    // Variables whose value differs per mode add mode classes (e.g. dark:)
+    const modeClasses = Object.entries(modes).flatMap(([variant, modeDict]) =>
+      diffVariantClasses(
+        baseClasses,
+        toClasses(declarations, { ...dict, ...modeDict }),
+        variant,
+        scales
+      )
+    );
+
+    // Flag generated classes Tailwind wouldn't generate any CSS for
+    const invalid: InvalidClass[] = [
+      ...new Set([...baseClasses, ...modeClasses, ...variantClasses]),
+    ].flatMap((className) => {
+      const message = validateClass(className, scales, target);
+      return message ? [{ className, message }] : [];
+    });
+
+    return {
+      ...mergeClasses(
+        existingClassesList,
+        [...newClassesList, ...modeClasses, ...variantClasses],
+        scales
+      ),
+      invalid,
+    };
+  };
+
+  // Variant frames only contribute the properties that differ from the base
+  const baseClasses = toClasses(parsed.declarations);
+  const variantClasses = frames.flatMap((frame) =>
+    diffVariantClasses(
+      baseClasses,
+      toClasses(frame.declarations),
+      frame.variant,
+      scales
+    )
+  );
+  const merged = convert(
+    parsed.declarations,
+    splitClasses(existingClasses),
+    variantClasses
+  );
+
+  // Each layer block is converted on its own (existing classes describe a
+  // single element, so they only apply to the combined output)
+  const layerOutputs = layers
+    ? groupBlocks(parsed.declarations).map((block) => {
+        const { classes, invalid } = convert(block.declarations, []);
+        return { name: block.name, classes: classes.join(" "), invalid };
+      })
+    : [];
+
+  // How each declaration converts on its own
+  const trace = traceConversion(parsed, (declaration, exact) =>
+    toTailwind(
+      toProperties([declaration], dict),
+      exact ? { ...scale, tolerance: 0 } : scale,
+      scales,
+      exact && colors.match === "nearest"
+        ? { ...colors, match: "exact" }
+        : colors,
+      emit
+    )
+  );
+
+  // Invalid classes are reported once, whichever output they appear in
+  const invalid = new Map(
+    [...merged.invalid, ...layerOutputs.flatMap((layer) => layer.invalid)].map(
+      (entry) => [entry.className, entry.message]
+    )
+  );
+  const unmappedVariables = collectVariables(allDeclarations, dict);
+
+  return {
+    classes: merged.classes,
+    className: merged.classes.join(" "),
+    removed: merged.removed,
+    invalid: merged.invalid,
+    layers: layerOutputs,
+    trace,
+    warnings: [
+      ...trace
+        .filter(
+          (row) => row.status === "unsupported" || row.status === "unparsed"
+        )
+        .map(
+          (row) =>
+            `Line ${row.line}: ${row.message}` +
+            (row.property ? "" : ` ("${row.value}")`)
+        ),
+      ...[...invalid].map(([className, message]) => `${className}: ${message}`),
+    ],
+    ruleMappings,
+    unmappedVariables,
+    variableTheme: keepVariables
+      ? buildVariableTheme(unmappedVariables, target)
+      : "",
+  };
+};
+
+// ---------- OUTPUT FORMATS ----------
+export type OutputFormat =
+  "className" | "jsx" | "element" | "apply" | "cn" | "cva";
+
+export const outputFormats: Record<OutputFormat, string> = {
+  className: "Class list",
+  jsx: 'className="…"',
+  element: "<div className>",
+  apply: "@apply rule",
+  cn: "cn() call",
+  cva: "cva variants",
+};
+
+// Classes grouped by their variant stack ("" for unprefixed classes), in
+// first-seen order
+const groupByVariant = (classes: string[]) => {
+  const groups = new Map<string, string[]>();
+  for (const className of classes) {
+    const variant = parseClassName(className).variants.join(":");
+    groups.set(variant, [...(groups.get(variant) ?? []), className]);
+  }
+  return groups;
+};
+
+// "Hero / Title" → hero-title (for selectors) or heroTitle (for identifiers)
+const toKebabCase = (name: string) =>
+  name
+    .replace(/([a-z0-9])([A-Z])/g, "$1-$2")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+
+const toCamelCase = (name: string) =>
+  toKebabCase(name).replace(/-(\w)/g, (_, ch: string) => ch.toUpperCase());
+
+// Variant stacks as object keys: md:hover → mdHover, while keys that aren't
+// identifiers (2xl, arbitrary variants) are quoted as written
+const variantKey = (variant: string) => {
+  const key = /^[\w:-]+$/.test(variant) ? toCamelCase(variant) : variant;
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(variant);
+};
+
+// Render a merged class list as a snippet; name (e.g. a layer name) is used
+// for the @apply selector and the cva variable
+export const formatClasses = (
+  classes: string[],
+  format: OutputFormat,
+  name = "element"
+): string => {
+  const className = classes.join(" ");
+  const quoted = JSON.stringify(className);
+
+  switch (format) {
+    case "className":
+      return className;
+    case "jsx":
+      return `className=${quoted}`;
+    case "element":
+      return `<div className=${quoted}></div>`;
+    case "apply": {
+      const selector = toKebabCase(name);
+      return `.${/^[a-z]/.test(selector) ? selector : "element"} {\n  @apply ${className};\n}`;
+    }
+    case "cn": {
+      const groups = [...groupByVariant(classes).values()];
+      if (groups.length <= 1) return `cn(${quoted})`;
+      const args = groups.map(
+        (group) => `  ${JSON.stringify(group.join(" "))}`
+      );
+      return `cn(\n${args.join(",\n")}\n)`;
+    }
+    case "cva": {
+      // Each variant stack becomes a boolean variant that is on by default, so
+      // the default output matches the class list
+      const groups = groupByVariant(classes);
+      const base = JSON.stringify((groups.get("") ?? []).join(" "));
+      const variants = [...groups].filter(([variant]) => variant !== "");
+      const identifier = toCamelCase(name);
+      const constName = /^[a-z]/.test(identifier) ? identifier : "element";
+      if (variants.length === 0) return `const ${constName} = cva(${base});`;
+
+      const keys = variants.map(([variant]) => variantKey(variant));
+      const lines = [
+        `const ${constName} = cva(${base}, {`,
+        "  variants: {",
+        ...variants.map(
+          ([, group], i) =>
+            `    ${keys[i]}: { true: ${JSON.stringify(group.join(" "))} },`
+        ),
+        "  },",
+        "  defaultVariants: {",
+        ...keys.map((key) => `    ${key}: true,`),
+        "  },",
+        "});",
+      ];
+      return lines.join("\n");
+    }
+  }
+};
+
+// ---------- NODE TREE ----------
+// Figma node JSON (REST API and plugin shapes), limited to the fields that
+// convert to CSS
+interface FigmaColor {
+  r: number;
+  g: number;
+  b: number;
+  a?: number;
+}
+
+interface FigmaPaint {
+  type: string; // SOLID, GRADIENT_LINEAR, GRADIENT_RADIAL, IMAGE, ...
+  visible?: boolean;
+  opacity?: number;
+  color?: FigmaColor;
+  gradientStops?: { position: number; color: FigmaColor }[];
+  gradientHandlePositions?: { x: number; y: number }[];
+}
+
+interface FigmaEffect {
+  type: string; // DROP_SHADOW, INNER_SHADOW, LAYER_BLUR, BACKGROUND_BLUR
+  visible?: boolean;
+  radius: number;
+  spread?: number;
+  color?: FigmaColor;
+  offset?: { x: number; y: number };
+}
+
+// REST nodes keep these in `style`, plugin nodes on the node itself
+interface FigmaTextStyle {
+  fontFamily?: string;
+  fontName?: { family: string; style: string };
+  fontWeight?: number;
+  fontSize?: number;
+  italic?: boolean;
+  lineHeightPx?: number;
+  lineHeightPercentFontSize?: number;
+  lineHeightUnit?: string; // PIXELS, FONT_SIZE_%, INTRINSIC_%
+  lineHeight?: { unit: string; value?: number };
+  letterSpacing?: number | { unit: string; value: number };
+  textAlignHorizontal?: string;
+  textCase?: string;
+  textDecoration?: string;
+  textTruncation?: string;
+  maxLines?: number | null;
+  paragraphIndent?: number;
+  opentypeFlags?: Record<string, number>;
+  textAutoResize?: string; // NONE, HEIGHT, WIDTH_AND_HEIGHT, TRUNCATE
+  fills?: FigmaPaint[];
+}
+
+interface FigmaBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface FigmaNode extends FigmaTextStyle {
+  type: string;
+  name?: string;
+  visible?: boolean;
+  children?: FigmaNode[];
+  characters?: string;
+  style?: FigmaTextStyle;
+  characterStyleOverrides?: number[];
+  styleOverrideTable?: Record<string, FigmaTextStyle>;
+  absoluteBoundingBox?: FigmaBox | null;
+  x?: number; // plugin nodes: relative to the parent
+  y?: number;
+  width?: number;
+  height?: number;
+  layoutMode?: string; // NONE, HORIZONTAL, VERTICAL
+  layoutWrap?: string;
+  layoutPositioning?: string; // AUTO, ABSOLUTE
+  layoutSizingHorizontal?: string; // FIXED, HUG, FILL
+  layoutSizingVertical?: string;
+  layoutGrow?: number;
+  layoutAlign?: string;
+  primaryAxisSizingMode?: string; // FIXED, AUTO
+  counterAxisSizingMode?: string;
+  primaryAxisAlignItems?: string;
+  counterAxisAlignItems?: string;
+  itemSpacing?: number;
+  counterAxisSpacing?: number;
+  paddingTop?: number;
+  paddingRight?: number;
+  paddingBottom?: number;
+  paddingLeft?: number;
+  strokes?: FigmaPaint[];
+  strokeWeight?: number;
+  individualStrokeWeights?: {
+    top: number;
+    right: number;
+    bottom: number;
+    left: number;
+  };
+  strokeDashes?: number[];
+  cornerRadius?: number;
+  rectangleCornerRadii?: number[];
+  topLeftRadius?: number;
+  topRightRadius?: number;
+  bottomRightRadius?: number;
+  bottomLeftRadius?: number;
+  effects?: FigmaEffect[];
+  opacity?: number;
+  blendMode?: string;
+  clipsContent?: boolean;
+}
+
+export type MarkupFormat = "jsx" | "html";
+export type LayerNameOutput = "comment" | "attribute" | "none";
+
+export interface NodeTreeOptions extends Pick<
+  ConvertOptions,
+  "theme" | "target" | "scale" | "colors" | "optimizer"
+> {
+  markup?: MarkupFormat;
+  layerNames?: LayerNameOutput; // {/* Card */} or data-layer="Card"
+}
+
+export interface NodeOutput {
+  path: string; // layer names from the root (e.g. "Card / Title")
+  tag: string;
+  properties: Record<string, string>; // the record toTailwind consumed
+  classes: string[];
+}
+
+export interface NodeTreeResult {
+  markup: string;
+  nodes: NodeOutput[];
+  warnings: string[];
+}
+
+// Auto layout alignment mapping
+const primaryAlignMap: Record<string, string> = {
+  CENTER: "center",
+  MAX: "flex-end",
+  SPACE_BETWEEN: "space-between",
+};
+
+const counterAlignMap: Record<string, string> = {
+  MIN: "flex-start",
+  CENTER: "center",
+  MAX: "flex-end",
+  BASELINE: "baseline",
+};
+
+// Text style mapping
+const textAlignMap: Record<string, string> = {
+  CENTER: "center",
+  RIGHT: "right",
+  JUSTIFIED: "justify",
+};
+
+const textCaseMap: Record<string, string> = {
+  UPPER: "uppercase",
+  LOWER: "lowercase",
+  TITLE: "capitalize",
+};
+
+const textDecorationMap: Record<string, string> = {
+  UNDERLINE: "underline",
+  STRIKETHROUGH: "line-through",
+};
+
+// Font style name → weight (plugin nodes only name the style)
+const fontStyleWeightMap: Record<string, string> = {
+  thin: "100",
+  extralight: "200",
+  light: "300",
+  regular: "400",
+  medium: "500",
+  semibold: "600",
+  bold: "700",
+  extrabold: "800",
+  black: "900",
+};
+
+// OpenType numeric features → font-variant-numeric
+const numericFeatureMap: Record<string, string> = {
+  LNUM: "lining-nums",
+  ONUM: "oldstyle-nums",
+  PNUM: "proportional-nums",
+  TNUM: "tabular-nums",
+  FRAC: "diagonal-fractions",
+  AFRC: "stacked-fractions",
+  ORDN: "ordinal",
+  ZERO: "slashed-zero",
+};
+
+// Figma blend modes CSS has no equivalent for
+const figmaBlendModes = ["linear-burn", "linear-dodge"];
+
+const pxValue = (value: number) => `${Math.round(value * 100) / 100}px`;
+
+const isVisible = (item: { visible?: boolean }) => item.visible !== false;
+
+// Paint colors carry the paint opacity in their alpha
+const paintColor = (color: FigmaColor, opacity = 1) =>
+  figmaColorToCss({ ...color, a: (color.a ?? 1) * opacity }) ?? "transparent";
+
+// Gradient handles are in the layer's unit square (y down); the angle ignores
+// the layer's aspect ratio
+const paintToCss = (paint: FigmaPaint): string | null => {
+  if (paint.type === "SOLID" && paint.color) {
+    return paintColor(paint.color, paint.opacity);
+  }
+  const stops = (paint.gradientStops ?? []).map(
+    ({ position, color }) =>
+      `${paintColor(color, paint.opacity)} ${Math.round(position * 10000) / 100}%`
+  );
+  if (paint.type === "GRADIENT_LINEAR" && stops.length > 0) {
+    const [start, end] = paint.gradientHandlePositions ?? [];
+    const angle =
+      start && end
+        ? (Math.atan2(end.x - start.x, start.y - end.y) * 180) / Math.PI
+        : 180;
+    return `linear-gradient(${Math.round(((angle + 360) % 360) * 100) / 100}deg, ${stops.join(", ")})`;
+  }
+  if (paint.type === "GRADIENT_RADIAL" && stops.length > 0) {
+    return `radial-gradient(${stops.join(", ")})`;
+  }
+  return null;
+};
+
+// Text style record: REST style fields, plugin node fields and their fills
+const textProperties = (
+  style: FigmaTextStyle,
+  warn: (message: string) => void
+): Record<string, string> => {
+  const properties: Record<string, string> = {};
+  const family = style.fontFamily ?? style.fontName?.family;
+  if (family) properties["font-family"] = family;
+  const styleName = style.fontName?.style.toLowerCase() ?? "";
+  const weight =
+    style.fontWeight ??
+    fontStyleWeightMap[styleName.replace(/[\s-]|italic/g, "") || "regular"];
+  if (weight) properties["font-weight"] = String(weight);
+  if (style.fontSize) properties["font-size"] = pxValue(style.fontSize);
+  if (style.italic || styleName.includes("italic")) {
+    properties["font-style"] = "italic";
+  }
+
+  if (style.lineHeightUnit === "PIXELS" && style.lineHeightPx) {
+    properties["line-height"] = pxValue(style.lineHeightPx);
+  } else if (
+    style.lineHeightUnit === "FONT_SIZE_%" &&
+    style.lineHeightPercentFontSize
+  ) {
+    properties["line-height"] =
+      `${Math.round(style.lineHeightPercentFontSize * 100) / 100}%`;
+  } else if (style.lineHeight?.value !== undefined) {
+    const { unit, value } = style.lineHeight;
+    if (unit === "PIXELS") properties["line-height"] = pxValue(value);
+    if (unit === "PERCENT") {
+      properties["line-height"] = `${Math.round(value * 100) / 100}%`;
+    }
+  }
+
+  const spacing = style.letterSpacing;
+  if (typeof spacing === "number" && spacing !== 0) {
+    properties["letter-spacing"] = pxValue(spacing);
+  } else if (typeof spacing === "object" && spacing.value !== 0) {
+    properties["letter-spacing"] =
+      spacing.unit === "PERCENT"
+        ? `${Math.round(spacing.value * 100) / 10000}em`
+        : pxValue(spacing.value);
+  }
+
+  const align = textAlignMap[style.textAlignHorizontal ?? ""];
+  if (align) properties["text-align"] = align;
+  const textCase = textCaseMap[style.textCase ?? ""];
+  if (textCase) properties["text-transform"] = textCase;
+  const decoration = textDecorationMap[style.textDecoration ?? ""];
+  if (decoration) properties["text-decoration-line"] = decoration;
+  if (style.paragraphIndent) {
+    properties["text-indent"] = pxValue(style.paragraphIndent);
+  }
+
+  if (style.textTruncation === "ENDING") {
+    properties["overflow"] = "hidden";
+    properties["text-overflow"] = "ellipsis";
+    if (style.maxLines && style.maxLines > 1) {
+      properties["display"] = "-webkit-box";
+      properties["-webkit-box-orient"] = "vertical";
+      properties["-webkit-line-clamp"] = String(style.maxLines);
+    } else {
+      properties["white-space"] = "nowrap";
+    }
+  }
+
+  // Numeric features become font-variant-numeric, others feature settings
+  const numeric: string[] = [];
+  const features: string[] = [];
+  for (const [tag, value] of Object.entries(style.opentypeFlags ?? {})) {
+    const feature = tag.toUpperCase();
+    if (numericFeatureMap[feature] && value) {
+      numeric.push(numericFeatureMap[feature]);
+    } else if (!numericFeatureMap[feature]) {
+      features.push(`"${feature.toLowerCase()}" ${value}`);
+    }
+  }
+  if (numeric.length > 0) {
+    properties["font-variant-numeric"] = numeric.join(" ");
+  }
+  if (features.length > 0) {
+    properties["font-feature-settings"] = features.join(", ");
+  }
+
+  const fills = (style.fills ?? []).filter(isVisible);
+  const fill = fills[fills.length - 1];
+  if (fill?.type === "SOLID" && fill.color) {
+    properties["color"] = paintColor(fill.color, fill.opacity);
+  } else if (fill) {
+    warn(`${fill.type.toLowerCase()} text fills are not converted`);
+  }
+  return properties;
+};
+
+const autoLayoutAxis = (node?: FigmaNode) =>
+  node?.layoutMode === "HORIZONTAL"
+    ? "horizontal"
+    : node?.layoutMode === "VERTICAL"
+      ? "vertical"
+      : null;
+
+// FIXED, HUG or FILL along an axis; older exports only have the auto layout
+// sizing modes
+const nodeSizing = (
+  node: FigmaNode,
+  axis: "horizontal" | "vertical",
+  parent?: FigmaNode
+) => {
+  const sizing =
+    axis === "horizontal"
+      ? node.layoutSizingHorizontal
+      : node.layoutSizingVertical;
+  if (sizing) return sizing;
+  const parentAxis = autoLayoutAxis(parent);
+  if (parentAxis === axis && node.layoutGrow === 1) return "FILL";
+  if (parentAxis && parentAxis !== axis && node.layoutAlign === "STRETCH") {
+    return "FILL";
+  }
+  const ownAxis = autoLayoutAxis(node);
+  if (ownAxis) {
+    const mode =
+      ownAxis === axis
+        ? node.primaryAxisSizingMode
+        : node.counterAxisSizingMode;
+    if ((mode ?? "AUTO") === "AUTO") return "HUG";
+  }
+  const autoResize = node.style?.textAutoResize ?? node.textAutoResize;
+  if (autoResize === "WIDTH_AND_HEIGHT") return "HUG";
+  if (autoResize === "HEIGHT" && axis === "vertical") return "HUG";
+  return "FIXED";
+};
+
+const nodeBox = (node: FigmaNode): FigmaBox =>
+  node.absoluteBoundingBox ?? {
+    x: node.x ?? 0,
+    y: node.y ?? 0,
+    width: node.width ?? 0,
+    height: node.height ?? 0,
+  };
+
+// Children outside auto layout (or opted out of it) are placed absolutely
+const isAbsolute = (node: FigmaNode, parent?: FigmaNode) =>
+  parent !== undefined &&
+  (!autoLayoutAxis(parent) || node.layoutPositioning === "ABSOLUTE");
+
+// Build the CSS property record for one node, as Figma's CSS panel would
+const nodeProperties = (
+  node: FigmaNode,
+  parent: FigmaNode | undefined,
+  warn: (message: string) => void
+): Record<string, string> => {
+  const isText = node.type === "TEXT";
+  const properties: Record<string, string> = isText
+    ? textProperties({ ...node, ...node.style, fills: node.fills }, warn)
+    : {};
+  const box = nodeBox(node);
+
+  // Position
+  if (isAbsolute(node, parent) && parent) {
+    const parentBox = nodeBox(parent);
+    const relative = node.absoluteBoundingBox && parent.absoluteBoundingBox;
+    properties["position"] = "absolute";
+    properties["left"] = pxValue(relative ? box.x - parentBox.x : box.x);
+    properties["top"] = pxValue(relative ? box.y - parentBox.y : box.y);
+  } else if (
+    node.children?.some((child) => isVisible(child) && isAbsolute(child, node))
+  ) {
+    properties["position"] = "relative";
+  }
+
+  // Size
+  const parentAxis = isAbsolute(node, parent) ? null : autoLayoutAxis(parent);
+  for (const axis of ["horizontal", "vertical"] as const) {
+    const sizing = nodeSizing(node, axis, parent);
+    if (sizing === "FILL" && parentAxis === axis) {
+      properties["flex"] = "1 0 0";
+    } else if (sizing === "FILL" && parentAxis) {
+      properties["align-self"] = "stretch";
+    } else if (sizing !== "HUG") {
+      const size = axis === "horizontal" ? box.width : box.height;
+      properties[axis === "horizontal" ? "width" : "height"] = pxValue(size);
+    }
+  }
+
+  // Auto layout
+  const axis = autoLayoutAxis(node);
+  if (axis) {
+    properties["display"] = "flex";
+    if (axis === "vertical") properties["flex-direction"] = "column";
+    const justify = primaryAlignMap[node.primaryAxisAlignItems ?? ""];
+    if (justify) properties["justify-content"] = justify;
+    properties["align-items"] =
+      counterAlignMap[node.counterAxisAlignItems ?? "MIN"] ?? "flex-start";
+    const spacing =
+      node.primaryAxisAlignItems === "SPACE_BETWEEN"
+        ? 0
+        : (node.itemSpacing ?? 0);
+    if (node.layoutWrap === "WRAP") {
+      properties["flex-wrap"] = "wrap";
+      if (spacing) properties["column-gap"] = pxValue(spacing);
+      if (node.counterAxisSpacing) {
+        properties["row-gap"] = pxValue(node.counterAxisSpacing);
+      }
+    } else if (spacing) {
+      properties["gap"] = pxValue(spacing);
+    }
+    const padding = [
+      node.paddingTop,
+      node.paddingRight,
+      node.paddingBottom,
+      node.paddingLeft,
+    ].map((side) => side ?? 0);
+    if (padding.some(Boolean)) {
+      properties["padding"] = padding.map(pxValue).join(" ");
+    }
+  }
+
+  // Fills: Figma paints the last fill on top, CSS the first layer
+  if (!isText) {
+    const fills = (node.fills ?? []).filter(isVisible).reverse();
+    const layers = fills.flatMap((paint) => {
+      const css = paintToCss(paint);
+      if (!css) warn(`${paint.type.toLowerCase()} fills are not converted`);
+      return css ? [{ css, solid: paint.type === "SOLID" }] : [];
+    });
+    if (layers.length === 1 && layers[0].solid) {
+      properties["background-color"] = layers[0].css;
+    } else if (layers.length > 0) {
+      // Only the bottom layer can be a plain color
+      properties["background"] = layers
+        .map(({ css, solid }, i) =>
+          solid && i < layers.length - 1
+            ? `linear-gradient(${css}, ${css})`
+            : css
+        )
+        .join(", ");
+    }
+  }
+
+  // Strokes
+  const strokes = (node.strokes ?? []).filter(isVisible);
+  const stroke = strokes[strokes.length - 1];
+  if (stroke && isText) {
+    warn("text strokes are not converted");
+  } else if (stroke?.type === "SOLID" && stroke.color) {
+    const weights = node.individualStrokeWeights;
+    properties["border-width"] = weights
+      ? [weights.top, weights.right, weights.bottom, weights.left]
+          .map(pxValue)
+          .join(" ")
+      : pxValue(node.strokeWeight ?? 1);
+    properties["border-style"] = node.strokeDashes?.length ? "dashed" : "solid";
+    properties["border-color"] = paintColor(stroke.color, stroke.opacity);
+  } else if (stroke) {
+    warn(`${stroke.type.toLowerCase()} strokes are not converted`);
+  }
+
+  // Corner radius
+  const corners = node.rectangleCornerRadii ?? [
+    node.topLeftRadius,
+    node.topRightRadius,
+    node.bottomRightRadius,
+    node.bottomLeftRadius,
+  ];
+  if (node.type === "ELLIPSE") {
+    properties["border-radius"] = "50%";
+  } else if (corners.some((corner) => corner && corner !== corners[0])) {
+    properties["border-radius"] = corners
+      .map((corner) => pxValue(corner ?? 0))
+      .join(" ");
+  } else if (node.cornerRadius ?? corners[0]) {
+    properties["border-radius"] = pxValue(node.cornerRadius ?? corners[0] ?? 0);
+  }
+
+  // Effects (Figma blur radii are twice the CSS blur)
+  const shadows: string[] = [];
+  for (const effect of (node.effects ?? []).filter(isVisible)) {
+    if (effect.type === "LAYER_BLUR") {
+      properties["filter"] = `blur(${pxValue(effect.radius / 2)})`;
+    } else if (effect.type === "BACKGROUND_BLUR") {
+      properties["backdrop-filter"] = `blur(${pxValue(effect.radius / 2)})`;
+    } else if (isText) {
+      warn("text shadows are not converted");
+    } else {
+      const { x = 0, y = 0 } = effect.offset ?? {};
+      shadows.push(
+        [
+          effect.type === "INNER_SHADOW" ? "inset" : "",
+          pxValue(x),
+          pxValue(y),
+          pxValue(effect.radius),
+          pxValue(effect.spread ?? 0),
+          paintColor(effect.color ?? { r: 0, g: 0, b: 0, a: 0.25 }),
+        ]
+          .filter(Boolean)
+          .join(" ")
+      );
+    }
+  }
+  if (shadows.length > 0) properties["box-shadow"] = shadows.join(", ");
+
+  if (node.opacity !== undefined && node.opacity < 1) {
+    properties["opacity"] = String(Math.round(node.opacity * 100) / 100);
+  }
+  const blendMode = node.blendMode?.toLowerCase().replace(/_/g, "-");
+  if (blendMode && !["normal", "pass-through"].includes(blendMode)) {
+    if (figmaBlendModes.includes(blendMode)) {
+      warn(`${blendMode} blending is not converted`);
+    } else {
+      properties["mix-blend-mode"] = blendMode;
+    }
+  }
+  if (node.clipsContent && !properties["overflow"]) {
+    properties["overflow"] = "hidden";
+  }
+  return properties;
+};
+
+// Figma node JSON, a REST file/nodes response or a list of nodes → the nodes
+// to render (pages render their top-level frames)
+const rootNodes = (json: unknown): FigmaNode[] => {
+  if (Array.isArray(json)) return json.flatMap(rootNodes);
+  if (!json || typeof json !== "object") {
+    throw new Error("Expected a Figma node or a file/nodes export");
+  }
+  const data = json as Record<string, unknown>;
+  if (data.document) return rootNodes(data.document);
+  if (data.nodes && typeof data.nodes === "object") {
+    return Object.values(data.nodes as Record<string, { document?: unknown }>)
+      .filter((entry) => entry?.document)
+      .flatMap((entry) => rootNodes(entry.document));
+  }
+  if (typeof data.type !== "string") {
+    throw new Error("Expected a Figma node or a file/nodes export");
+  }
+  const node = data as unknown as FigmaNode;
+  return node.type === "DOCUMENT" || node.type === "CANVAS"
+    ? (node.children ?? []).filter(isVisible)
+    : [node];
+};
+
+// Runs of characters that share a style override (0 is the node's own style)
+const textRuns = (node: FigmaNode) => {
+  const text = node.characters ?? "";
+  const overrides = node.characterStyleOverrides ?? [];
+  const runs: { text: string; style?: FigmaTextStyle }[] = [];
+  let previous: number | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const id = overrides[i] ?? 0;
+    if (id === previous) {
+      runs[runs.length - 1].text += text[i];
+    } else {
+      runs.push({ text: text[i], style: node.styleOverrideTable?.[id] });
+      previous = id;
+    }
+  }
+  return runs;
+};
+
+// Convert a Figma node tree to nested JSX or HTML: each node's CSS property
+// record goes through toTailwind and the optimizer like pasted CSS does
+export const convertNodeTree = (
+  json: unknown,
+  options: NodeTreeOptions = {}
+): NodeTreeResult => {
+  const {
+    markup = "jsx",
+    layerNames = "comment",
+    theme = null,
+    target = "v3",
+    scale = defaultScaleOptions,
+    colors = defaultColorOptions,
+    optimizer = defaultOptimizerOptions,
+  } = options;
+  const emit: EmitOptions = { target, keepVariables: false };
+  const scales = resolveScales(theme, target);
+  const isJSX = markup === "jsx";
+  const nodes: NodeOutput[] = [];
+  const warnings: string[] = [];
+
+  const toClasses = (properties: Record<string, string>, path: string) => {
+    const classes = optimizeClasses(
+      toTailwind(properties, scale, scales, colors, emit),
+      optimizer,
+      scales
+    );
+    for (const className of classes) {
+      const message = validateClass(className, scales, target);
+      if (message) warnings.push(`${path}: ${className}: ${message}`);
+    }
+    return classes;
+  };
+
+  const attribute = (name: string, value: string) =>
+    isJSX
+      ? ` ${name}=${JSON.stringify(value)}`
+      : ` ${name}="${value.replace(/&/g, "&amp;").replace(/"/g, "&quot;")}"`;
+  const classAttribute = (classes: string[]) =>
+    classes.length > 0
+      ? attribute(isJSX ? "className" : "class", classes.join(" "))
+      : "";
+  const comment = (text: string) =>
+    isJSX
+      ? `{/* ${text.replace(/\*\//g, "* /")} */}`
+      : `<!-- ${text.replace(/--/g, "- -")} -->`;
+
+  // Text content, with line breaks kept as <br>
+  const textContent = (text: string) =>
+    text
+      .split(/\r?\n|\u2028/)
+      .map((line) =>
+        isJSX
+          ? /[{}<>&]/.test(line)
+            ? `{${JSON.stringify(line)}}`
+            : line
+          : line
+              .replace(/&/g, "&amp;")
+              .replace(/</g, "&lt;")
+              .replace(/>/g, "&gt;")
+      )
+      .join(isJSX ? "<br />" : "<br>");
+
+  const render = (
+    node: FigmaNode,
+    parent: FigmaNode | undefined,
+    parentPath: string,
+    indent: string
+  ): string[] => {
+    const name = node.name?.trim() || node.type.toLowerCase();
+    const path = parentPath ? `${parentPath} / ${name}` : name;
+    const properties = nodeProperties(node, parent, (message) =>
+      warnings.push(`${path}: ${message}`)
+    );
+    const isText = node.type === "TEXT";
+    const tag = isText ? "p" : "div";
+    const classes = toClasses(properties, path);
+    nodes.push({ path, tag, properties, classes });
+
+    // Text layers are named after their text unless renamed
+    const showName =
+      layerNames !== "none" && !(isText && name === node.characters?.trim());
+    const lines =
+      showName && layerNames === "comment" ? [indent + comment(name)] : [];
+    const open = `<${tag}${classAttribute(classes)}${
+      showName && layerNames === "attribute"
+        ? attribute("data-layer", name)
+        : ""
+    }`;
+
+    if (isText) {
+      const content = textRuns(node)
+        .map(({ text, style }) => {
+          const runClasses = style
+            ? toClasses(
+                textProperties(style, (message) =>
+                  warnings.push(`${path}: ${message}`)
+                ),
+                path
+              )
+            : [];
+          return runClasses.length > 0
+            ? `<span${classAttribute(runClasses)}>${textContent(text)}</span>`
+            : textContent(text);
+        })
+        .join("");
+      return [...lines, `${indent}${open}>${content}</${tag}>`];
+    }
+
+    const children = (node.children ?? []).filter(isVisible);
+    if (children.length === 0) {
+      return [...lines, `${indent}${open}${isJSX ? " />" : `></${tag}>`}`];
+    }
+    return [
+      ...lines,
+      `${indent}${open}>`,
+      ...children.flatMap((child) => render(child, node, path, `${indent}  `)),
+      `${indent}</${tag}>`,
+    ];
+  };
+
+  const roots = rootNodes(json).filter(isVisible);
+  const lines = roots.flatMap((root) => render(root, undefined, "", ""));
+
+  // JSX needs a single root element
+  const needsFragment =
+    isJSX && (roots.length > 1 || lines[0]?.startsWith("{/*"));
+  return {
+    markup: needsFragment
+      ? ["<>", ...lines.map((line) => `  ${line}`), "</>"].join("\n")
+      : lines.join("\n"),
+    nodes,
+    warnings,
+  };
+};
+
+// ---------- REVERSE CONVERSION ----------
+export interface ReverseDeclaration {
+  property: string;
+  value: string;
+  className: string; // class the declaration comes from
+}
+
+export interface ReverseGroup {
+  variant: string; // variant stack ("" for unprefixed classes, e.g. "md:hover")
+  declarations: ReverseDeclaration[];
+}
+
+export interface ReverseResult {
+  groups: ReverseGroup[];
+  unknown: string[]; // classes with no known CSS
+  css: string; // the groups as a nested CSS rule
+}
+
+// Invert a value → name scale to name → value
+const invertScale = (scale: Record<string, string>) =>
+  Object.fromEntries(
+    Object.entries(scale).map(([value, name]) => [name, value])
+  );
+
+// Properties set by each spacing and size utility
+const spacingProperties: Record<string, string[]> = {
+  p: ["padding"],
+  px: ["padding-left", "padding-right"],
+  py: ["padding-top", "padding-bottom"],
+  pt: ["padding-top"],
+  pr: ["padding-right"],
+  pb: ["padding-bottom"],
+  pl: ["padding-left"],
+  m: ["margin"],
+  mx: ["margin-left", "margin-right"],
+  my: ["margin-top", "margin-bottom"],
+  mt: ["margin-top"],
+  mr: ["margin-right"],
+  mb: ["margin-bottom"],
+  ml: ["margin-left"],
+  gap: ["gap"],
+  "gap-x": ["column-gap"],
+  "gap-y": ["row-gap"],
+  inset: ["inset"],
+  "inset-x": ["left", "right"],
+  "inset-y": ["top", "bottom"],
+  top: ["top"],
+  right: ["right"],
+  bottom: ["bottom"],
+  left: ["left"],
+  w: ["width"],
+  h: ["height"],
+  size: ["width", "height"],
+  "min-w": ["min-width"],
+  "max-w": ["max-width"],
+  "min-h": ["min-height"],
+  "max-h": ["max-height"],
+  basis: ["flex-basis"],
+};
+
+// Corners set by each border radius utility
+const radiusProperties: Record<string, string[]> = {
+  rounded: ["border-radius"],
+  "rounded-t": ["border-top-left-radius", "border-top-right-radius"],
+  "rounded-r": ["border-top-right-radius", "border-bottom-right-radius"],
+  "rounded-b": ["border-bottom-right-radius", "border-bottom-left-radius"],
+  "rounded-l": ["border-top-left-radius", "border-bottom-left-radius"],
+  "rounded-tl": ["border-top-left-radius"],
+  "rounded-tr": ["border-top-right-radius"],
+  "rounded-br": ["border-bottom-right-radius"],
+  "rounded-bl": ["border-bottom-left-radius"],
+};
+
+// Sides set by each border utility
+const borderSides: Record<string, string[]> = {
+  border: [""],
+  "border-x": ["-left", "-right"],
+  "border-y": ["-top", "-bottom"],
+  "border-t": ["-top"],
+  "border-r": ["-right"],
+  "border-b": ["-bottom"],
+  "border-l": ["-left"],
+};
+
+// Alignment utility values → CSS keywords
+const alignmentKeywords: Record<string, string> = {
+  start: "flex-start",
+  end: "flex-end",
+  center: "center",
+  baseline: "baseline",
+  stretch: "stretch",
+  between: "space-between",
+  around: "space-around",
+  evenly: "space-evenly",
+  auto: "auto",
+  normal: "normal",
+};
+
+// Utilities without a value → their declarations
+const staticDeclarations: Record<string, [string, string][]> = {
+  flex: [["display", "flex"]],
+  "inline-flex": [["display", "inline-flex"]],
+  grid: [["display", "grid"]],
+  "inline-grid": [["display", "inline-grid"]],
+  block: [["display", "block"]],
+  "inline-block": [["display", "inline-block"]],
+  inline: [["display", "inline"]],
+  contents: [["display", "contents"]],
+  hidden: [["display", "none"]],
+  static: [["position", "static"]],
+  relative: [["position", "relative"]],
+  absolute: [["position", "absolute"]],
+  fixed: [["position", "fixed"]],
+  sticky: [["position", "sticky"]],
+  "transform-none": [["transform", "none"]],
+  uppercase: [["text-transform", "uppercase"]],
+  lowercase: [["text-transform", "lowercase"]],
+  capitalize: [["text-transform", "capitalize"]],
+  "normal-case": [["text-transform", "none"]],
+  truncate: [
+    ["overflow", "hidden"],
+    ["text-overflow", "ellipsis"],
+    ["white-space", "nowrap"],
+  ],
+  "text-ellipsis": [["text-overflow", "ellipsis"]],
+  "text-clip": [["text-overflow", "clip"]],
+  "line-clamp-none": [
+    ["overflow", "visible"],
+    ["display", "block"],
+    ["-webkit-box-orient", "horizontal"],
+    ["-webkit-line-clamp", "unset"],
+  ],
+  "normal-nums": [["font-variant-numeric", "normal"]],
+  ordinal: [["--tw-ordinal", "ordinal"]],
+  "slashed-zero": [["--tw-slashed-zero", "slashed-zero"]],
+  "lining-nums": [["--tw-numeric-figure", "lining-nums"]],
+  "oldstyle-nums": [["--tw-numeric-figure", "oldstyle-nums"]],
+  "proportional-nums": [["--tw-numeric-spacing", "proportional-nums"]],
+  "tabular-nums": [["--tw-numeric-spacing", "tabular-nums"]],
+  "diagonal-fractions": [["--tw-numeric-fraction", "diagonal-fractions"]],
+  "stacked-fractions": [["--tw-numeric-fraction", "stacked-fractions"]],
+  "break-normal": [
+    ["overflow-wrap", "normal"],
+    ["word-break", "normal"],
+  ],
+  "break-words": [["overflow-wrap", "break-word"]],
+  "break-all": [["word-break", "break-all"]],
+  "break-keep": [["word-break", "keep-all"]],
+  "filter-none": [["filter", "none"]],
+  "backdrop-filter-none": [["backdrop-filter", "none"]],
+  "content-none": [["content", "none"]],
+  "transition-none": [["transition-property", "none"]],
+  ...Object.fromEntries(
+    Object.entries(defaultEaseScale).map(([timing, name]) => [
+      `ease-${name}`,
+      [["transition-timing-function", timing]],
+    ])
+  ),
+  ...Object.fromEntries(
+    ["grayscale", "invert", "sepia"].flatMap((kind) => [
+      [kind, [[`--tw-${kind}`, "100%"]]],
+      [`backdrop-${kind}`, [[`--tw-backdrop-${kind}`, "100%"]]],
+    ])
+  ),
+  "flex-row": [["flex-direction", "row"]],
+  "flex-row-reverse": [["flex-direction", "row-reverse"]],
+  "flex-col": [["flex-direction", "column"]],
+  "flex-col-reverse": [["flex-direction", "column-reverse"]],
+  "flex-wrap": [["flex-wrap", "wrap"]],
+  "flex-wrap-reverse": [["flex-wrap", "wrap-reverse"]],
+  "flex-nowrap": [["flex-wrap", "nowrap"]],
+  "flex-1": [["flex", "1 1 0%"]],
+  "flex-auto": [["flex", "1 1 auto"]],
+  "flex-initial": [["flex", "0 1 auto"]],
+  "flex-none": [["flex", "none"]],
+  grow: [["flex-grow", "1"]],
+  shrink: [["flex-shrink", "1"]],
+  italic: [["font-style", "italic"]],
+  "not-italic": [["font-style", "normal"]],
+  underline: [["text-decoration-line", "underline"]],
+  overline: [["text-decoration-line", "overline"]],
+  "line-through": [["text-decoration-line", "line-through"]],
+  "no-underline": [["text-decoration-line", "none"]],
+  "bg-none": [["background-image", "none"]],
+  "bg-cover": [["background-size", "cover"]],
+  "bg-contain": [["background-size", "contain"]],
+  "bg-auto": [["background-size", "auto"]],
+  "bg-fixed": [["background-attachment", "fixed"]],
+  "bg-local": [["background-attachment", "local"]],
+  "bg-scroll": [["background-attachment", "scroll"]],
+  "bg-repeat": [["background-repeat", "repeat"]],
+  "bg-no-repeat": [["background-repeat", "no-repeat"]],
+  "bg-repeat-x": [["background-repeat", "repeat-x"]],
+  "bg-repeat-y": [["background-repeat", "repeat-y"]],
+  "bg-repeat-space": [["background-repeat", "space"]],
+  "bg-repeat-round": [["background-repeat", "round"]],
+  "bg-center": [["background-position", "center"]],
+  "bg-top": [["background-position", "top"]],
+  "bg-bottom": [["background-position", "bottom"]],
+  "bg-left": [["background-position", "left"]],
+  "bg-right": [["background-position", "right"]],
+};
+
+// Gradient direction utility sides → linear-gradient() directions
+const gradientDirections: Record<string, string> = {
+  t: "to top",
+  tr: "to top right",
+  r: "to right",
+  br: "to bottom right",
+  b: "to bottom",
+  bl: "to bottom left",
+  l: "to left",
+  tl: "to top left",
+};
+
+// Turn an arbitrary value back into CSS: "[length:var(--x)]" / "(length:--x)"
+// → { value: "var(--x)", hint: "length" }
+const parseArbitraryValue = (raw: string) => {
+  const isVariable = raw.startsWith("(");
+  let inner = raw.slice(1, -1);
+  const hint = inner.match(/^([a-z-]+):(?!\/)/)?.[1];
+  if (hint) inner = inner.slice(hint.length + 1);
+  const value = inner
+    .replace(/\\_/g, "\u0000")
+    .replace(/_/g, " ")
+    .replace(/\u0000/g, "_");
+  return { value: isVariable ? `var(${value})` : value, hint };
+};
+
+// Opacity modifier (/50, /[0.35]) → alpha
+const modifierAlpha = (modifier: string) => {
+  const value = modifier.startsWith("[")
+    ? modifier.slice(1, -1)
+    : String(Number(modifier) / 100);
+  const alpha = value.endsWith("%") ? parseFloat(value) / 100 : Number(value);
+  return Number.isFinite(alpha) ? alpha : null;
+};
+
+// Declarations generated by a class without its variants (null when unknown)
+const utilityDeclarations = (
+  base: string,
+  scales: ThemeScales,
+  target: TailwindTarget
+): [string, string][] | null => {
+  if (staticDeclarations[base]) return staticDeclarations[base];
+
+  // Arbitrary property ([text-underline-position:under])
+  const property = base.match(/^\[(-?[a-z][a-z-]*):(.+)\]$/);
+  if (property) {
+    return [[property[1], parseArbitraryValue(`[${property[2]}]`).value]];
+  }
+
+  const fontSizes = invertScale(scales.fontSizeMap);
+  const spacing = invertScale(scales.spacingScale);
+  const radii = invertScale(scales.radiusScale);
+  const shadows = {
+    ...invertScale(scales.shadowPresets),
+    ...invertScale(scales.shadowMap),
+  };
+  const blurScale = target === "v4" ? defaultBlurScaleV4 : defaultBlurScale;
+  const dropShadows =
+    target === "v4" ? defaultDropShadowScaleV4 : defaultDropShadowScale;
+  const transitionProperties = invertScale(
+    target === "v4" ? defaultTransitionScaleV4 : defaultTransitionScale
+  );
+
+  // transition-* classes set a 150ms in-out timing along with the properties
+  const transitionDeclarations = (property: string): [string, string][] => [
+    ["transition-property", property],
+    ["transition-timing-function", "cubic-bezier(0.4, 0, 0.2, 1)"],
+    ["transition-duration", "150ms"],
+  ];
+  const colorValue = (value: string) => {
+    const [name, modifier] = value.split(/\/(?=\d+$|\[[^\]]+\]$)/);
+    const keywords: Record<string, string> = {
+      transparent: "transparent",
+      current: "currentColor",
+      inherit: "inherit",
+    };
+    if (keywords[name]) return keywords[name];
+    const entry = scales.palette.find((color) => color.name === name);
+    if (!entry) return null;
+    const alpha = modifier ? modifierAlpha(modifier) : 1;
+    return alpha === null ? null : formatColor({ ...entry.rgba, a: alpha });
+  };
+  const spacingValue = (value: string) => {
+    if (spacing[value] !== undefined) return `${spacing[value]}px`;
+    if (target === "v4" && /^\d+(\.(25|5|75))?$/.test(value)) {
+      return `${Number(value) * scales.spacingStep}px`;
+    }
+    return null;
+  };
+  const sizeValue = (twKey: string, value: string) => {
+    const keywords: Record<string, string> = {
+      auto: "auto",
+      full: "100%",
+      min: "min-content",
+      max: "max-content",
+      fit: "fit-content",
+      screen: twKey.includes("h") ? "100vh" : "100vw",
+      svh: "100svh",
+      dvh: "100dvh",
+      svw: "100svw",
+    };
+    const fraction = value.match(/^(\d+)\/(\d+)$/);
+    if (fraction) {
+      return `${+((Number(fraction[1]) / Number(fraction[2])) * 100).toFixed(6)}%`;
+    }
+    return keywords[value] ?? spacingValue(value);
+  };
+  // Line height from a leading name or a spacing step (leading-6 → 24px)
+  const lineHeightValue = (value: string) => {
+    const named = invertScale(scales.lineHeightMap)[value];
+    if (named !== undefined) return named;
+    if (/^\d+(\.\d+)?$/.test(value)) {
+      return `${Number(value) * scales.spacingStep}px`;
+    }
+    return value.startsWith("[") ? parseArbitraryValue(value).value : null;
+  };
+
+  const borderDeclarations = (twKey: string, suffix: string, value: string) =>
+    borderSides[twKey].map((side): [string, string] => [
+      `border${side}-${suffix}`,
+      value,
+    ]);
+
+  // Arbitrary values and variables (p-[13px], text-(color:--x), bg-[#fff]/50)
+  const arbitrary = base.match(/^(.+?)-(\[.+?\]|\(.+?\))(?:\/(\S+))?$/);
+  if (arbitrary) {
+    const [, twKey, raw, modifier] = arbitrary;
+    const { value, hint } = parseArbitraryValue(raw);
+    const isColor = hint === "color" || (!hint && parseColor(value) !== null);
+    const isLength =
+      hint === "length" || (!hint && isInferredType("length", value));
+
+    if (spacingProperties[twKey]) {
+      return spacingProperties[twKey].map((prop) => [prop, value]);
+    }
+    if (radiusProperties[twKey]) {
+      return radiusProperties[twKey].map((prop) => [prop, value]);
+    }
+    if (borderSides[twKey]) {
+      return borderDeclarations(twKey, isColor ? "color" : "width", value);
+    }
+    const color = () => {
+      const rgba = modifier ? parseColor(value) : null;
+      const alpha = modifier ? modifierAlpha(modifier) : null;
+      return rgba && alpha !== null
+        ? formatColor({ ...rgba, a: rgba.a * alpha })
+        : value;
+    };
+    switch (twKey) {
+      case "text": {
+        if (isColor || (!isLength && hint !== "number")) {
+          return [["color", color()]];
+        }
+        const declarations: [string, string][] = [["font-size", value]];
+        const leading = modifier && lineHeightValue(modifier);
+        if (leading) declarations.push(["line-height", leading]);
+        return declarations;
+      }
+      case "bg":
+        // A variable is a color, a url() or gradient a background image
+        return [
+          isColor || value.startsWith("var(")
+            ? ["background-color", color()]
+            : ["background-image", value],
+        ];
+      case "from":
+      case "via":
+      case "to":
+        // from-[12.5%] is a stop position, from-[#fff] a stop color
+        return [
+          hint === "length" ||
+          hint === "percentage" ||
+          (!hint && /^-?\d*\.?\d+(%|[a-z]+)$/.test(value))
+            ? [`--tw-gradient-${twKey}-position`, value]
+            : [`--tw-gradient-${twKey}`, color()],
+        ];
+      case "font":
+        return [
+          hint === "number" || /^\d+$/.test(value)
+            ? ["font-weight", value]
+            : ["font-family", value.replace(/'/g, '"').replace(/,\s*/g, ", ")],
+        ];
+      case "leading":
+        return [["line-height", value]];
+      case "tracking":
+        return [["letter-spacing", value]];
+      case "opacity":
+        return [["opacity", value]];
+      case "shadow":
+        return [["box-shadow", value]];
+      case "decoration":
+        return [
+          isColor || (!isLength && hint !== "length")
+            ? ["text-decoration-color", color()]
+            : ["text-decoration-thickness", value],
+        ];
+      case "underline-offset":
+        return [["text-underline-offset", value]];
+      case "z":
+        return [["z-index", value]];
+      case "rotate":
+        return [["--tw-rotate", value]];
+      case "scale":
+        return [
+          ["--tw-scale-x", value],
+          ["--tw-scale-y", value],
+        ];
+      case "scale-x":
+      case "scale-y":
+      case "translate-x":
+      case "translate-y":
+        return [[`--tw-${twKey}`, value]];
+      case "origin":
+        return [["transform-origin", value]];
+      case "content":
+        return [["content", value]];
+      case "transition":
+        return transitionDeclarations(value);
+      case "duration":
+      case "delay":
+        return [[`transition-${twKey}`, value]];
+      case "ease":
+        return [["transition-timing-function", value]];
+      case "line-clamp":
+        return [
+          ["overflow", "hidden"],
+          ["display", "-webkit-box"],
+          ["-webkit-box-orient", "vertical"],
+          ["-webkit-line-clamp", value],
+        ];
+      case "indent":
+        return [["text-indent", value]];
+      case "blur":
+      case "brightness":
+      case "contrast":
+      case "grayscale":
+      case "hue-rotate":
+      case "invert":
+      case "saturate":
+      case "sepia":
+      case "drop-shadow":
+      case "backdrop-blur":
+      case "backdrop-brightness":
+      case "backdrop-contrast":
+      case "backdrop-grayscale":
+      case "backdrop-hue-rotate":
+      case "backdrop-invert":
+      case "backdrop-opacity":
+      case "backdrop-saturate":
+      case "backdrop-sepia":
+        return [[`--tw-${twKey}`, value]];
+      case "grow":
+        return [["flex-grow", value]];
+      case "shrink":
+        return [["flex-shrink", value]];
+      case "flex":
+        return [["flex", value]];
+      default:
+        return null;
+    }
+  }
+
+  // Named values: try every prefix/value split, longest prefix first
+  const parts = base.split("-");
+  for (let i = parts.length - 1; i > 0; i--) {
+    const twKey = parts.slice(0, i).join("-");
+    const value = parts.slice(i).join("-");
+
+    if (spacingProperties[twKey]) {
+      const css =
+        twKey.startsWith("m") || /^(inset|top|right|bottom|left)/.test(twKey)
+          ? value === "auto"
+            ? "auto"
+            : sizeValue(twKey, value)
+          : /^(p|gap)/.test(twKey)
+            ? spacingValue(value)
+            : sizeValue(twKey, value);
+      if (css !== null) {
+        return spacingProperties[twKey].map((prop) => [prop, css]);
+      }
+    }
+    if (radiusProperties[twKey] && radii[value] !== undefined) {
+      return radiusProperties[twKey].map((prop) => [prop, `${radii[value]}px`]);
+    }
+    if (borderSides[twKey]) {
+      if (/^\d+$/.test(value)) {
+        return borderDeclarations(twKey, "width", `${value}px`);
+      }
+      if (
+        twKey === "border" &&
+        ["solid", "dashed", "dotted", "double", "hidden", "none"].includes(
+          value
+        )
+      ) {
+        return [["border-style", value]];
+      }
+      const color = colorValue(value);
+      if (color) return borderDeclarations(twKey, "color", color);
+    }
+
+    switch (twKey) {
+      case "text": {
+        const [size, leading] = value.split("/");
+        if (fontSizes[size] !== undefined) {
+          const fontSize = `${fontSizes[size]}px`;
+          // The font size's own line height, unless a modifier overrides it
+          const lineHeight = leading
+            ? lineHeightValue(leading)
+            : invertScale(defaultFontSizeMap)[size] === fontSizes[size]
+              ? defaultFontSizeLeading[size]
+              : undefined;
+          return lineHeight
+            ? [
+                ["font-size", fontSize],
+                ["line-height", lineHeight],
+              ]
+            : [["font-size", fontSize]];
+        }
+        if (
+          ["left", "center", "right", "justify", "start", "end"].includes(value)
+        ) {
+          return [["text-align", value]];
+        }
+        const color = colorValue(value);
+        if (color) return [["color", color]];
+        break;
+      }
+      case "bg": {
+        // Corner positions (v4 bg-top-left, v3 bg-left-top)
+        const corner =
+          target === "v4"
+            ? value.match(/^(top|bottom)-(left|right)$/)
+            : value.match(/^(left|right)-(top|bottom)$/);
+        if (corner)
+          return [["background-position", `${corner[1]} ${corner[2]}`]];
+        const color = colorValue(value);
+        if (color) return [["background-color", color]];
+        break;
+      }
+      case "bg-gradient-to":
+      case "bg-linear-to":
+        if (gradientDirections[value]) {
+          return [
+            [
+              "background-image",
+              `linear-gradient(${gradientDirections[value]}, var(--tw-gradient-stops))`,
+            ],
+          ];
+        }
+        break;
+      case "bg-linear":
+        if (/^\d+$/.test(value)) {
+          return [
+            [
+              "background-image",
+              `linear-gradient(${value}deg, var(--tw-gradient-stops))`,
+            ],
+          ];
+        }
+        break;
+      case "from":
+      case "via":
+      case "to": {
+        if (/^\d+%$/.test(value)) {
+          return [[`--tw-gradient-${twKey}-position`, value]];
+        }
+        const color = colorValue(value);
+        if (color) return [[`--tw-gradient-${twKey}`, color]];
+        break;
+      }
+      case "font": {
+        const weight = invertScale(scales.fontWeightMap)[value];
+        if (weight !== undefined) return [["font-weight", weight]];
+        if (scales.fontStacks[value]) {
+          return [["font-family", scales.fontStacks[value]]];
+        }
+        break;
+      }
+      case "leading": {
+        const lineHeight = lineHeightValue(value);
+        if (lineHeight) return [["line-height", lineHeight]];
+        break;
+      }
+      case "tracking": {
+        const tracking = invertScale(scales.letterSpacingMap)[value];
+        if (tracking !== undefined) return [["letter-spacing", tracking]];
+        break;
+      }
+      case "opacity":
+        if (/^\d+$/.test(value))
+          return [["opacity", String(Number(value) / 100)]];
+        break;
+      case "shadow": {
+        if (shadows[value] !== undefined)
+          return [["box-shadow", shadows[value]]];
+        const color = colorValue(value);
+        if (color) return [["--tw-shadow-color", color]];
+        break;
+      }
+      case "decoration": {
+        if (["solid", "double", "dotted", "dashed", "wavy"].includes(value)) {
+          return [["text-decoration-style", value]];
+        }
+        if (/^\d+$/.test(value) || value === "auto" || value === "from-font") {
+          return [
+            [
+              "text-decoration-thickness",
+              /^\d+$/.test(value) ? `${value}px` : value,
+            ],
+          ];
+        }
+        const color = colorValue(value);
+        if (color) return [["text-decoration-color", color]];
+        break;
+      }
+      case "underline-offset":
+        return [
+          ["text-underline-offset", /^\d+$/.test(value) ? `${value}px` : value],
+        ];
+      case "justify":
+      case "content":
+      case "items":
+      case "self": {
+        const keyword = alignmentKeywords[value];
+        const properties: Record<string, string> = {
+          justify: "justify-content",
+          content: "align-content",
+          items: "align-items",
+          self: "align-self",
+        };
+        if (keyword) return [[properties[twKey], keyword]];
+        break;
+      }
+      case "grow":
+      case "shrink":
+        if (/^\d+$/.test(value)) return [[`flex-${twKey}`, value]];
+        break;
+      case "z":
+        if (/^\d+$/.test(value) || value === "auto") {
+          return [["z-index", value]];
+        }
+        break;
+      // Transform utilities set variables that classesToCSS combines into
+      // one transform
+      case "rotate":
+        if (/^\d+$/.test(value)) return [["--tw-rotate", `${value}deg`]];
+        break;
+      case "scale":
+      case "scale-x":
+      case "scale-y":
+        if (/^\d+$/.test(value)) {
+          const factor = String(Number(value) / 100);
+          return twKey === "scale"
+            ? [
+                ["--tw-scale-x", factor],
+                ["--tw-scale-y", factor],
+              ]
+            : [[`--tw-${twKey}`, factor]];
+        }
+        break;
+      case "translate-x":
+      case "translate-y": {
+        const offset = sizeValue(twKey, value);
+        if (offset !== null && value !== "auto") {
+          return [[`--tw-${twKey}`, offset]];
+        }
+        break;
+      }
+      case "origin":
+        if (/^(center|top|bottom|left|right)(-(left|right))?$/.test(value)) {
+          return [["transform-origin", value.replace("-", " ")]];
+        }
+        break;
+      // Filter utilities set variables that classesToCSS combines into one
+      // filter / backdrop filter
+      case "blur":
+      case "backdrop-blur": {
+        const blur = invertScale(blurScale)[value];
+        if (blur !== undefined) return [[`--tw-${twKey}`, `${blur}px`]];
+        break;
+      }
+      case "brightness":
+      case "contrast":
+      case "grayscale":
+      case "invert":
+      case "saturate":
+      case "sepia":
+      case "backdrop-brightness":
+      case "backdrop-contrast":
+      case "backdrop-grayscale":
+      case "backdrop-invert":
+      case "backdrop-opacity":
+      case "backdrop-saturate":
+      case "backdrop-sepia":
+        if (/^\d+$/.test(value)) {
+          return [[`--tw-${twKey}`, String(Number(value) / 100)]];
+        }
+        break;
+      case "hue-rotate":
+      case "backdrop-hue-rotate":
+        if (/^\d+$/.test(value)) return [[`--tw-${twKey}`, `${value}deg`]];
+        break;
+      case "drop-shadow": {
+        const dropShadow = invertScale(dropShadows)[value];
+        if (dropShadow !== undefined) {
+          return [["--tw-drop-shadow", dropShadow]];
+        }
+        break;
+      }
+      case "inset-shadow": {
+        const insetShadow = invertScale(defaultInsetShadowScale)[value];
+        if (insetShadow !== undefined && target === "v4") {
+          return [["box-shadow", insetShadow]];
+        }
+        break;
+      }
+      case "whitespace":
+        return [["white-space", value]];
+      case "overflow":
+      case "overflow-x":
+      case "overflow-y":
+        return [[twKey, value]];
+      case "wrap":
+        return [["overflow-wrap", value]];
+      case "line-clamp":
+        if (/^\d+$/.test(value)) {
+          return [
+            ["overflow", "hidden"],
+            ["display", "-webkit-box"],
+            ["-webkit-box-orient", "vertical"],
+            ["-webkit-line-clamp", value],
+          ];
+        }
+        break;
+      case "indent": {
+        const indent = spacingValue(value);
+        if (indent !== null) return [["text-indent", indent]];
+        break;
+      }
+      case "mix-blend":
+        return [["mix-blend-mode", value]];
+      case "bg-blend":
+        return [["background-blend-mode", value]];
+      case "transition": {
+        const property = transitionProperties[value];
+        if (property !== undefined) return transitionDeclarations(property);
+        break;
+      }
+      case "duration":
+      case "delay":
+        if (/^\d+$/.test(value)) return [[`transition-${twKey}`, `${value}ms`]];
+        break;
+      case "flex":
+        if (target === "v4" && /^\d+$/.test(value)) return [["flex", value]];
+        break;
+    }
+  }
+
+  // Bare utilities whose default value comes from a scale
+  if (base === "border") return [["border-width", "1px"]];
+  if (base === "rounded") {
+    return [["border-radius", `${radii[""] ?? "4"}px`]];
+  }
+  if (base === "shadow" && shadows[""]) return [["box-shadow", shadows[""]]];
+  if (base === "transition") {
+    return transitionDeclarations(transitionProperties[""]);
+  }
+  if (base === "blur" || base === "backdrop-blur") {
+    const blur = invertScale(blurScale)[""];
+    if (blur !== undefined) return [[`--tw-${base}`, `${blur}px`]];
+  }
+  if (base === "drop-shadow") {
+    const dropShadow = invertScale(dropShadows)[""];
+    if (dropShadow !== undefined) return [["--tw-drop-shadow", dropShadow]];
+  }
+  if (radiusProperties[base]) {
+    return radiusProperties[base].map((prop) => [
+      prop,
+      `${radii[""] ?? "4"}px`,
+    ]);
+  }
+  if (borderSides[base]) return borderDeclarations(base, "width", "1px");
+  return null;
+};
+
+// Breakpoint widths (px) of the default screens
+const breakpoints: Record<string, number> = {
+  sm: 640,
+  md: 768,
+  lg: 1024,
+  xl: 1280,
+  "2xl": 1536,
+};
+
+// Pseudo-classes whose variant name differs from the selector
+const pseudoVariants: Record<string, string> = {
+  first: ":first-child",
+  last: ":last-child",
+  only: ":only-child",
+  odd: ":nth-child(odd)",
+  even: ":nth-child(even)",
+  before: "::before",
+  after: "::after",
+  placeholder: "::placeholder",
+  selection: "::selection",
+  marker: "::marker",
+  file: "::file-selector-button",
+};
+
+const pseudoClasses = [
+  "hover",
+  "focus",
+  "focus-visible",
+  "focus-within",
+  "active",
+  "visited",
+  "target",
+  "disabled",
+  "enabled",
+  "checked",
+  "indeterminate",
+  "required",
+  "invalid",
+  "empty",
+  "read-only",
+  "placeholder-shown",
+  "open",
+];
+
+// The CSS block a variant stands for (@media query or nested selector)
+const variantBlock = (variant: string): string => {
+  if (breakpoints[variant])
+    return `@media (width >= ${breakpoints[variant]}px)`;
+  const max = variant.match(/^max-(.+)$/);
+  if (max && breakpoints[max[1]]) {
+    return `@media (width < ${breakpoints[max[1]]}px)`;
+  }
+  const arbitraryWidth = variant.match(/^(min|max)-\[(.+)\]$/);
+  if (arbitraryWidth) {
+    return `@media (width ${arbitraryWidth[1] === "min" ? ">=" : "<"} ${arbitraryWidth[2]})`;
+  }
+  if (variant === "dark") return "@media (prefers-color-scheme: dark)";
+  if (variant === "print") return "@media print";
+  if (variant === "motion-safe") {
+    return "@media (prefers-reduced-motion: no-preference)";
+  }
+  if (variant === "motion-reduce") {
+    return "@media (prefers-reduced-motion: reduce)";
+  }
+  if (pseudoVariants[variant]) return `&${pseudoVariants[variant]}`;
+  if (pseudoClasses.includes(variant)) return `&:${variant}`;
+  const group = variant.match(/^(group|peer)-(.+)$/);
+  if (group && pseudoClasses.includes(group[2])) {
+    return group[1] === "group"
+      ? `.group:${group[2]} &`
+      : `.peer:${group[2]} ~ &`;
+  }
+  const attribute = variant.match(/^(aria|data)-(.+)$/);
+  if (attribute) {
+    return attribute[2].startsWith("[")
+      ? `&[${attribute[1]}-${parseArbitraryValue(attribute[2]).value}]`
+      : attribute[1] === "aria"
+        ? `&[aria-${attribute[2]}="true"]`
+        : `&[data-${attribute[2]}]`;
+  }
+  // Arbitrary variants ([&>svg], [@media(hover:hover)])
+  if (variant.startsWith("[") && variant.endsWith("]")) {
+    return parseArbitraryValue(variant).value;
+  }
+  return `@variant ${variant}`;
+};
+
+// Explain a class list as the CSS it generates, grouped by variant stack
+export const classesToCSS = (
+  classes: string | string[],
+  options: Pick<ConvertOptions, "theme" | "target"> = {}
+): ReverseResult => {
+  const { theme = null, target = "v3" } = options;
+  const scales = resolveScales(theme, target);
+  const list = Array.isArray(classes) ? classes : splitClasses(classes);
+
+  const groups = new Map<string, Map<string, ReverseDeclaration>>();
+  // Line heights that only come with a font size (text-lg) and timings that
+  // only come with a transition, which an explicit leading-*, text-lg/7,
+  // duration-* or ease-* overrides whatever the class order
+  const implied = new Set<string>();
+  const unknown: string[] = [];
+  for (const className of list) {
+    const { variants, important, negative, base } = parseClassName(className);
+    const declarations = utilityDeclarations(base, scales, target);
+    if (!declarations) {
+      unknown.push(className);
+      continue;
+    }
+    const variant = variants.join(":");
+    const group = groups.get(variant) ?? new Map();
+    groups.set(variant, group);
+    const impliedProperties = /^text-[^/]+$/.test(base)
+      ? ["line-height"]
+      : /^transition(-|$)/.test(base)
+        ? ["transition-timing-function", "transition-duration"]
+        : [];
+    for (const [property, value] of declarations) {
+      const key = `${variant} ${property}`;
+      if (impliedProperties.includes(property)) {
+        if (group.has(property) && !implied.has(key)) continue;
+        implied.add(key);
+      } else {
+        implied.delete(key);
+      }
+      const signed = negative
+        ? value.startsWith("-")
+          ? value.slice(1)
+          : `-${value}`
+        : value;
+      // A later class for the same property wins
+      group.delete(property);
+      group.set(property, {
+        property,
+        value: important ? `${signed} !important` : signed,
+        className,
+      });
+    }
+  }
+
+  // Gradient stops fill in the direction utility's var(--tw-gradient-stops)
+  for (const group of groups.values()) {
+    const image = group.get("background-image");
+    const keys = ["from", "via", "to"];
+    if (
+      !image?.value.includes("var(--tw-gradient-stops)") ||
+      !keys.some((key) => group.has(`--tw-gradient-${key}`))
+    ) {
+      continue;
+    }
+    // A missing from/to stop is transparent, a missing via is left out (and
+    // so is its position, which Tailwind ignores too)
+    const stops = keys.flatMap((key) => {
+      const color = group.get(`--tw-gradient-${key}`);
+      const position = group.get(`--tw-gradient-${key}-position`);
+      if (key === "via" && !color) {
+        if (position) unknown.push(position.className);
+        return [];
+      }
+      return [
+        [color?.value ?? "transparent", position?.value]
+          .filter(Boolean)
+          .join(" "),
+      ];
+    });
+    image.value = image.value.replace(
+      "var(--tw-gradient-stops)",
+      stops.join(", ")
+    );
+    for (const key of keys) {
+      group.delete(`--tw-gradient-${key}`);
+      group.delete(`--tw-gradient-${key}-position`);
+    }
+  }
+
+  // Translate, rotate and scale utilities combine into one transform, in the
+  // order Tailwind applies them
+  for (const group of groups.values()) {
+    const variable = (name: string) => group.get(`--tw-${name}`);
+    const names = [
+      "translate-x",
+      "translate-y",
+      "rotate",
+      "scale-x",
+      "scale-y",
+    ];
+    const present = names.flatMap((name) => variable(name) ?? []);
+    if (present.length === 0) continue;
+    const value = (name: string, fallback: string) =>
+      variable(name)?.value ?? fallback;
+    const functions: string[] = [];
+    if (variable("translate-x") || variable("translate-y")) {
+      functions.push(
+        `translate(${value("translate-x", "0")}, ${value("translate-y", "0")})`
+      );
+    }
+    if (variable("rotate")) functions.push(`rotate(${value("rotate", "0")})`);
+    if (variable("scale-x") || variable("scale-y")) {
+      const x = value("scale-x", "1");
+      const y = value("scale-y", "1");
+      functions.push(x === y ? `scale(${x})` : `scale(${x}, ${y})`);
+    }
+    const { className } = present[present.length - 1];
+    for (const name of names) group.delete(`--tw-${name}`);
+    group.delete("transform");
+    group.set("transform", {
+      property: "transform",
+      value: functions.join(" "),
+      className,
+    });
+  }
+
+  // Filter utilities combine into one filter and one backdrop filter, in the
+  // order Tailwind applies them
+  const filterKinds = [
+    "blur",
+    "brightness",
+    "contrast",
+    "grayscale",
+    "hue-rotate",
+    "invert",
+    "opacity",
+    "saturate",
+    "sepia",
+    "drop-shadow",
+  ];
+  for (const group of groups.values()) {
+    for (const property of ["filter", "backdrop-filter"]) {
+      const prefix = property === "filter" ? "--tw-" : "--tw-backdrop-";
+      const present = filterKinds.flatMap((kind) => {
+        const declaration = group.get(`${prefix}${kind}`);
+        return declaration ? [{ kind, ...declaration }] : [];
+      });
+      if (present.length === 0) continue;
+      const functions = present.map(({ kind, value }) =>
+        kind === "drop-shadow"
+          ? splitCommas(value)
+              .map((shadow) => `drop-shadow(${shadow})`)
+              .join(" ")
+          : `${kind}(${value})`
+      );
+      for (const { kind } of present) group.delete(`${prefix}${kind}`);
+      group.delete(property);
+      group.set(property, {
+        property,
+        value: functions.join(" "),
+        className: present[present.length - 1].className,
+      });
+    }
+  }
+
+  // Numeric variant utilities combine into one font-variant-numeric
+  const numericKinds = [
+    "ordinal",
+    "slashed-zero",
+    "numeric-figure",
+    "numeric-spacing",
+    "numeric-fraction",
+  ];
+  for (const group of groups.values()) {
+    const present = numericKinds.flatMap(
+      (kind) => group.get(`--tw-${kind}`) ?? []
+    );
+    if (present.length === 0) continue;
+    for (const kind of numericKinds) group.delete(`--tw-${kind}`);
+    group.delete("font-variant-numeric");
+    group.set("font-variant-numeric", {
+      property: "font-variant-numeric",
+      value: present.map(({ value }) => value).join(" "),
+      className: present[present.length - 1].className,
+    });
+  }
+
+  // Unprefixed classes first, then each variant stack in first-seen order
+  const sorted = [...groups].sort(([a], [b]) =>
+    a === "" ? -1 : b === "" ? 1 : 0
+  );
+  const result = sorted.map(([variant, group]) => ({
+    variant,
+    declarations: [...group.values()],
+  }));
+
+  // Render as one nested rule (each variant stack nests its blocks)
+  const lines = [".element {"];
+  for (const { variant, declarations } of result) {
+    const blocks = variant
+      ? parseClassName(`${variant}:x`).variants.map(variantBlock)
+      : [];
+    if (variant && lines.length > 1) lines.push("");
+    blocks.forEach((block, depth) => {
+      lines.push(`${"  ".repeat(depth + 1)}${block} {`);
+    });
+    const indent = "  ".repeat(blocks.length + 1);
+    for (const { property, value } of declarations) {
+      lines.push(`${indent}${property}: ${value};`);
+    }
+    for (let depth = blocks.length; depth > 0; depth--) {
+      lines.push(`${"  ".repeat(depth)}}`);
+    }
+  }
+  lines.push("}");
+
+  return { groups: result, unknown, css: lines.join("\n") };
+};
+
+// ---------- ROUND TRIP ----------
+// same: the classes give the original value back; changed: they give another
+// value (snapped or approximated); lost: the property isn't generated; added:
+// generated but not in the original; mapped: a dictionary value, not compared
+export type RoundTripStatus = "same" | "changed" | "lost" | "added" | "mapped";
+
+export interface RoundTripRow {
+  property: string; // longhand property (padding → padding-top, ...)
+  original: string | null;
+  roundTrip: string | null;
+  className: string | null; // class the round-trip value comes from
+  status: RoundTripStatus;
+}
+
+const sideNames = ["top", "right", "bottom", "left"];
+const cornerNames = ["top-left", "top-right", "bottom-right", "bottom-left"];
+
+// Expand shorthands to longhands so both sides compare property by property
+const expandLonghands = (
+  property: string,
+  value: string
+): [string, string][] => {
+  const box = (name: (side: string) => string, sides = sideNames) => {
+    const values = expandBox(value);
+    return values
+      ? sides.map((side, i): [string, string] => [name(side), values[i]])
+      : [[property, value] as [string, string]];
+  };
+  const border = (sides: string[]) => {
+    const { width, style, color } = parseBorder(value);
+    return sides.flatMap((side) => [
+      ...(width ? [[`border-${side}-width`, width]] : []),
+      ...(style ? [[`border-${side}-style`, style]] : []),
+      ...(color ? [[`border-${side}-color`, color]] : []),
+    ]) as [string, string][];
+  };
+
+  switch (property) {
+    case "padding":
+    case "margin":
+      return box((side) => `${property}-${side}`);
+    case "inset":
+      return box((side) => side);
+    case "border-radius":
+      return value.includes("/")
+        ? [[property, value]]
+        : box((corner) => `border-${corner}-radius`, cornerNames);
+    case "border-width":
+    case "border-style":
+    case "border-color":
+      return box((side) => `border-${side}-${property.slice(7)}`);
+    case "border":
+      return border(sideNames);
+    case "border-top":
+    case "border-right":
+    case "border-bottom":
+    case "border-left":
+      return border([property.slice(7)]);
+    case "gap": {
+      const [row, column = row] = splitValues(value);
+      return [
+        ["row-gap", row],
+        ["column-gap", column],
+      ];
+    }
+    case "flex": {
+      const flex = parseFlex(value);
+      if (!flex) return [[property, value]];
+      const [grow, shrink, basis] = flex;
+      return [
+        ["flex-grow", grow],
+        ["flex-shrink", shrink],
+        ["flex-basis", basis],
+      ];
+    }
+    case "background": {
+      const layers = parseBackground(value);
+      if (!layers) return [[property, value]];
+      const longhands: [string, string | null][] = [
+        [
+          "background-image",
+          layers.images.length ? layers.images.join(", ") : null,
+        ],
+        ["background-color", layers.color],
+        ["background-position", layers.position],
+        ["background-size", layers.size],
+        ["background-repeat", layers.repeat],
+        ["background-attachment", layers.attachment],
+      ];
+      return longhands.filter((entry): entry is [string, string] =>
+        Boolean(entry[1])
+      );
+    }
+    // Individual transform properties compare as the transform toTailwind
+    // converts them to
+    case "translate":
+    case "scale": {
+      const [x, y = property === "scale" ? x : "0"] = splitValues(value);
+      return [["transform", `${property}(${x}, ${y})`]];
+    }
+    case "rotate":
+      return [["transform", `rotate(${value})`]];
+    case "transition": {
+      const transition = parseTransition(value);
+      if (!transition) return [[property, value]];
+      // No transition has no timing to compare
+      if (transition.property === "none") {
+        return [["transition-property", "none"]];
+      }
+      return [
+        ["transition-property", transition.property],
+        ["transition-duration", transition.duration],
+        ["transition-timing-function", transition.timing],
+        ["transition-delay", transition.delay],
+      ];
+    }
+    default:
+      return [[property, value]];
+  }
+};
+
+// Transform with one function per axis and unit, identity functions left
+// out ("translateX(50%) rotate(0deg) scale(2)" → "translate(50%,0px) scale(2,2)")
+const normalizeTransform = (value: string): string => {
+  const functions = parseFunctions(value);
+  if (!functions) return value.replace(/\s*,\s*/g, ",").replace(/\s+/g, " ");
+  const parts = functions.map(({ name, args }) => {
+    const [a, b] = args;
+    switch (name) {
+      case "translate":
+        return ["translate", a, b ?? "0"];
+      case "translatex":
+        return ["translate", a, "0"];
+      case "translatey":
+        return ["translate", "0", a];
+      case "scale":
+        return ["scale", a, b ?? a];
+      case "scalex":
+        return ["scale", a, "1"];
+      case "scaley":
+        return ["scale", "1", a];
+      case "rotate":
+      case "rotatez":
+        return ["rotate", `${toDegrees(a) ?? a}deg`];
+      default:
+        return [name, ...args];
+    }
+  });
+  return parts
+    .map(([name, ...args]) => [
+      name,
+      ...args.map((arg) => comparableValue("", arg)),
+    ])
+    .filter(
+      ([name, ...args]) =>
+        !(
+          (name === "translate" && args.every((arg) => arg === "0px")) ||
+          (name === "rotate" && args[0] === "0px") ||
+          (name === "scale" && args.every((arg) => arg === "1"))
+        )
+    )
+    .map(([name, ...args]) => `${name}(${args.join(",")})`)
+    .join(" ");
+};
+
+// Filter with amounts as numbers (50% → 0.5), angles in degrees and drop
+// shadows in their comparable form
+const normalizeFilter = (value: string): string => {
+  const functions = parseFunctions(value);
+  if (!functions) return value.replace(/\s+/g, " ");
+  return functions
+    .map(({ name, args: [arg = ""] }) => {
+      if (name === "drop-shadow") return `${name}(${shadowKey(arg)})`;
+      if (name === "hue-rotate") return `${name}(${toDegrees(arg) ?? arg})`;
+      if (name === "blur") return `${name}(${comparableValue("", arg)})`;
+      const amount = arg.endsWith("%") ? parseFloat(arg) / 100 : Number(arg);
+      return `${name}(${Number.isFinite(amount) ? amount : arg})`;
+    })
+    .join(" ");
+};
+
+// Background position as "x y" percentages where keywords allow
+// ("top" → "50% 0%", "right 100%" → "100% 100%")
+const normalizeBackgroundPosition = (value: string) => {
+  const percents: Record<string, string> = {
+    left: "0%",
+    top: "0%",
+    center: "50%",
+    right: "100%",
+    bottom: "100%",
+  };
+  let [x, y = "center"] = value.split(/\s+/);
+  if (/^(top|bottom)$/.test(x) || /^(left|right)$/.test(y)) [x, y] = [y, x];
+  return [x, y].map((token) => percents[token] ?? token).join(" ");
+};
+
+// Linear gradient with its direction in degrees and every stop positioned
+const normalizeGradient = (value: string): string => {
+  const gradient = parseLinearGradient(value);
+  if (!gradient) return value.replace(/\s*,\s*/g, ",").replace(/\s+/g, " ");
+  const degrees: Record<string, string> = {
+    tr: "45",
+    br: "135",
+    bl: "225",
+    tl: "315",
+  };
+  const last = gradient.stops.length - 1;
+  const stops = gradient.stops.map(({ color, position }, i) => {
+    const offset = position ?? `${(i / last) * 100}%`;
+    return `${comparableValue("color", color)} ${comparableValue("", offset)}`;
+  });
+  return `linear-gradient(${degrees[gradient.direction] ?? gradient.direction}deg,${stops.join(",")})`;
+};
+
+// Comparable form of a value (colors as RGBA, lengths in px, numbers trimmed)
+const comparableValue = (property: string, value: string) => {
+  const trimmed = value.replace(/\s*!important$/, "").trim();
+  if (property === "font-family") return normalizeFontFamily(trimmed);
+  if (property === "box-shadow") return shadowKey(trimmed);
+  if (property === "filter" || property === "backdrop-filter") {
+    return normalizeFilter(trimmed.toLowerCase());
+  }
+  if (property === "background-image") {
+    return normalizeGradient(trimmed.toLowerCase());
+  }
+  if (property === "transform")
+    return normalizeTransform(trimmed.toLowerCase());
+  if (property === "background-position" || property === "transform-origin") {
+    return normalizeBackgroundPosition(trimmed.toLowerCase());
+  }
+  if (property === "font-variant-numeric") {
+    return trimmed.toLowerCase().split(/\s+/).sort().join(" ");
+  }
+  if (property === "transition-duration" || property === "transition-delay") {
+    const times = splitCommas(trimmed).map(toMs);
+    if (times.every((ms) => ms !== null)) {
+      return times.map((ms) => `${ms}ms`).join(",");
+    }
+  }
+  // A percentage line height is the same ratio of the font size
+  if (property === "line-height" && /^\d*\.?\d+%$/.test(trimmed)) {
+    return String(parseFloat(trimmed) / 100);
+  }
+  const rgba = parseColor(trimmed);
+  if (rgba) {
+    const { r, g, b, a } = rgba;
+    return `rgba(${r},${g},${b},${Math.round(a * 100) / 100})`;
+  }
+  if (/^-?0(\.0+)?(%|[a-z]+)?$/.test(trimmed)) return "0px";
+  const px = toPx(trimmed);
+  if (px !== null) return `${Math.round(px * 100) / 100}px`;
+  if (/^-?\d*\.?\d+$/.test(trimmed)) return String(Number(trimmed));
+  return trimmed
+    .toLowerCase()
+    .replace(/\s*,\s*/g, ",")
+    .replace(/\s+/g, " ");
+};
+
+// Values toTailwind leaves out because they match the browser/preflight
+// defaults (border sides are keyed without the side)
+const defaultValues: Record<string, string[]> = {
+  "flex-direction": ["row"],
+  "flex-wrap": ["nowrap"],
+  "flex-grow": ["0"],
+  "flex-shrink": ["1"],
+  "flex-basis": ["auto", "content"],
+  "font-style": ["normal"],
+  "font-weight": ["400", "normal"],
+  "text-decoration-style": ["solid"],
+  "text-decoration-skip-ink": ["auto"],
+  "text-decoration-thickness": ["auto"],
+  "text-underline-offset": ["auto"],
+  "text-underline-position": ["auto", "from-font"],
+  opacity: ["1"],
+  "border-width": ["0px"],
+  "border-style": ["solid", "none"],
+  "border-color": ["transparent", "rgba(0,0,0,0)"],
+  "background-image": ["none"],
+  "background-size": ["auto"],
+  position: ["static"],
+  "z-index": ["auto"],
+  transform: ["none", ""],
+  "transform-origin": ["50% 50%"],
+  "box-shadow": ["none"],
+  overflow: ["visible"],
+  "overflow-x": ["visible"],
+  "overflow-y": ["visible"],
+  "text-transform": ["none"],
+  "white-space": ["normal"],
+  "text-overflow": ["clip"],
+  "font-variant-numeric": ["normal"],
+  "font-feature-settings": ["normal"],
+  "text-indent": ["0px"],
+  "word-break": ["normal"],
+  "overflow-wrap": ["normal"],
+  filter: ["none"],
+  "backdrop-filter": ["none"],
+  "mix-blend-mode": ["normal"],
+  "background-blend-mode": ["normal"],
+  "transition-delay": ["0ms"],
+  "background-repeat": ["repeat"],
+  "background-attachment": ["scroll"],
+};
+
+const isDefaultValue = (property: string, value: string) =>
+  (
+    defaultValues[
+      property.replace(
+        /^border-(top|right|bottom|left)-(?!.*radius)/,
+        "border-"
+      )
+    ] ?? []
+  )
+    .map((defaultValue) => comparableValue(property, defaultValue))
+    .includes(comparableValue(property, value));
+
+// Convert CSS to classes and back, and compare the result with the original
+// declarations to find lossy conversions. Prefixes, existing classes, variant
+// frames and modes are left out, so only the pasted CSS is compared
+export const roundTripCSS = (
+  css: string,
+  options: ConvertOptions = {}
+): RoundTripRow[] => {
+  const converted = convertCSS(css, {
+    ...options,
+    prefixes: "",
+    existingClasses: "",
+    variantFrames: [],
+    modes: {},
+    layers: false,
+  });
+  const reversed = classesToCSS(converted.classes, options).groups.find(
+    (group) => group.variant === ""
+  );
+
+  const dict: VarDict = { ...converted.ruleMappings, ...options.dictionary };
+  const original = new Map<string, { value: string; resolved: string }>();
+  const declarations = parseDeclarations(css);
+  for (const declaration of declarations) {
+    const resolved = resolveVariables(
+      declaration.value,
+      dict,
+      options.keepVariables
+    );
+    for (const [property, value] of expandLonghands(
+      declaration.property,
+      declaration.value
+    )) {
+      // Shorthands split the raw and the resolved value the same way
+      const resolvedValue =
+        expandLonghands(declaration.property, resolved).find(
+          ([resolvedProperty]) => resolvedProperty === property
+        )?.[1] ?? resolved;
+      original.delete(property);
+      original.set(property, { value, resolved: resolvedValue });
+    }
+  }
+  // Individual translate/rotate/scale properties apply in that order whatever
+  // their source order, so they compare as one transform
+  const individual = ["translate", "rotate", "scale"].flatMap((kind) => {
+    const declaration = declarations.findLast(
+      ({ property }) => property === kind
+    );
+    return declaration ? [expandLonghands(kind, declaration.value)[0][1]] : [];
+  });
+  if (
+    individual.length > 1 &&
+    !declarations.some(({ property }) => property === "transform")
+  ) {
+    const value = individual.join(" ");
+    original.set("transform", {
+      value,
+      resolved: resolveVariables(value, dict, options.keepVariables),
+    });
+  }
+
+  const roundTrip = new Map<string, { value: string; className: string }>();
+  for (const { property, value, className } of reversed?.declarations ?? []) {
+    for (const [longhand, longhandValue] of expandLonghands(property, value)) {
+      roundTrip.delete(longhand);
+      roundTrip.set(longhand, { value: longhandValue, className });
+    }
+  }
+
+  const rows: RoundTripRow[] = [];
+  for (const [property, { value, resolved }] of original) {
+    const generated = roundTrip.get(property);
+    let status: RoundTripStatus;
+    if (resolved.includes("__DICT__")) {
+      status = generated ? "mapped" : "lost";
+    } else if (!generated) {
+      status = isDefaultValue(property, resolved) ? "same" : "lost";
+    } else {
+      status =
+        comparableValue(property, resolved) ===
+        comparableValue(property, generated.value)
+          ? "same"
+          : "changed";
+    }
+    rows.push({
+      property,
+      original: value,
+      roundTrip: generated?.value ?? null,
+      className: generated?.className ?? null,
+      status,
+    });
+  }
+  for (const [property, { value, className }] of roundTrip) {
+    if (original.has(property) || isDefaultValue(property, value)) continue;
+    rows.push({
+      property,
+      original: null,
+      roundTrip: value,
+      className,
+      status: "added",
+    });
+  }
+  return rows;
+};
+
+// ---------- PREVIEW ----------
+export interface PreviewView {
+  state: string; // forced state variant ("" for none)
+  width: number; // viewport width (px)
+}
+
+export interface PreviewStyle {
+  declarations: [string, string][]; // CSS for the Figma sample element
+  mapped: string[]; // longhands mapped to Tailwind names, which have no CSS value
+}
+
+// Whether a variant frame applies at the previewed width and state
+const frameApplies = (variant: string, { state, width }: PreviewView) =>
+  variant.split(":").every((part) => {
+    const max = part.match(/^max-(.+)$/);
+    if (max && breakpoints[max[1]]) return width < breakpoints[max[1]];
+    if (breakpoints[part]) return width >= breakpoints[part];
+    return part === state;
+  });
+
+// The Figma CSS the way the conversion reads it: variables resolved through
+// the dictionary, rules and fallbacks, with the variant frames that apply to
+// the view layered on top (narrowest breakpoint first)
+export const previewStyle = (
+  css: string,
+  view: PreviewView,
+  options: ConvertOptions = {}
+): PreviewStyle => {
+  const { dictionary = {}, rules = [], variantFrames = [] } = options;
+  const frameWidth = (variant: string) =>
+    Math.max(0, ...variant.split(":").map((part) => breakpoints[part] ?? 0));
+  const sources = [
+    parseDeclarations(css),
+    ...variantFrames
+      .filter((frame) => frameApplies(frame.variant, view))
+      .sort((a, b) => frameWidth(a.variant) - frameWidth(b.variant))
+      .map((frame) => parseDeclarations(frame.css)),
+  ];
+  const dict: VarDict = {
+    ...applyVarRules(
+      Object.keys(collectVariables(sources.flat(), {})),
+      rules,
+      dictionary
+    ),
+    ...dictionary,
+  };
+
+  // Later declarations override earlier ones in the style rule itself
+  const declarations: [string, string][] = [];
+  const mapped = new Set<string>();
+  for (const { property, value } of sources.flat()) {
+    const unmarked = unmarkCSSValues(resolveVariables(value, dict));
+    const longhands = expandLonghands(property, unmarked).map(([name]) => name);
+    if (unmarked.includes("__DICT__")) {
+      longhands.forEach((name) => mapped.add(name));
+    } else {
+      longhands.forEach((name) => mapped.delete(name));
+      declarations.push([property, unmarked]);
+    }
+  }
+  return { declarations, mapped: [...mapped] };
+};
+
+// Longhands whose CSS differs between Tailwind v3 and v4 for the classes,
+// which a preview compiled with v4 can't compare for v3 output. Border colors
+// always differ: the v3 preflight makes them gray, the v4 one currentColor
+export const versionDifferences = (
+  classes: string[],
+  theme: ThemeModel | null = null
+): string[] => {
+  const longhands = (target: TailwindTarget) =>
+    classesToCSS(classes, { theme, target }).groups.flatMap(
+      ({ variant, declarations }) =>
+        declarations.flatMap(({ property, value }) =>
+          expandLonghands(property, value).map(
+            ([name, longhand]): [string, string] => [
+              `${variant} ${name}`,
+              longhand,
+            ]
+          )
+        )
+    );
+  const v3 = new Map(longhands("v3"));
+  const v4 = new Map(longhands("v4"));
+  const differences = new Set(sideNames.map((side) => `border-${side}-color`));
+  for (const key of new Set([...v3.keys(), ...v4.keys()])) {
+    if (v3.get(key) !== v4.get(key)) differences.add(key.split(" ")[1]);
+  }
+  return [...differences];
+};
+
+// Apply a state variant unconditionally (hover:bg-x → bg-x), so a preview can
+// show the state without hovering; other variant stacks are kept
+export const forceVariant = (classes: string[], variant: string): string[] =>
+  classes.map((className) => {
+    const { variants } = parseClassName(className);
+    if (!variant || !variants.includes(variant)) return className;
+    const prefix = variants.join(":");
+    const rest = variants.filter((v) => v !== variant).join(":");
+    return (rest ? `${rest}:` : "") + className.slice(prefix.length + 1);
+  });